@@ -1,6 +1,16 @@
 // Core API
 export { query, Query } from "./lib/query";
-export { apiRequest, ApiError, setTokenGetter } from "./lib/api";
+export {
+    addInterceptor,
+    apiRequest,
+    ApiError,
+    createFetchTransport,
+    NetworkError,
+    setTokenGetter,
+    setTokenRefresher,
+    setTransport,
+    TimeoutError,
+} from "./lib/api";
 
 // Hooks
 export { useDebouncedUpdate } from "./lib/hooks/use-debounced-update";
@@ -13,8 +23,67 @@ export type {
     ResourceOperations,
     ResourceHooks,
     CacheOperations,
+    InfiniteListData,
+    InfiniteListOptions,
     QueryKeys,
+    IndexDefinition,
+    SchemaMigration,
     ListParams,
+    ListParamValue,
+    FilterCondition,
+    FilterOperator,
+    FilterObject,
+    FilterScalar,
+    MutationHookOptions,
+    Page,
+    PageMeta,
+    PageParam,
+    PaginationConfig,
+    QueryOptions,
+    RequestOptions,
+    SyncConfig,
+    SyncResult,
 } from "./lib/types";
+export type {
+    ApiInterceptor,
+    ApiRequestOptions,
+    FetchTransportOptions,
+    InterceptedRequest,
+    TokenGetter,
+    TokenRefresher,
+    Transport,
+} from "./lib/api";
+export type { RetryPolicy } from "./lib/core/retry";
+export { Outbox } from "./lib/core/outbox";
+export type { OutboxEntry, OutboxStatus } from "./lib/core/outbox";
+export { CacheSweeper } from "./lib/core/cache-sweeper";
+export type { RetentionPolicy } from "./lib/core/cache-sweeper";
+export { SyncCursors } from "./lib/core/sync-cursors";
+export {
+    createEventSourceChannel,
+    createMemoryChannel,
+    createWebSocketChannel,
+    Realtime,
+} from "./lib/core/realtime";
+export type {
+    EventSourceChannelOptions,
+    MemoryChannel,
+    RealtimeChannel,
+    RealtimeEvent,
+    WebSocketChannelOptions,
+} from "./lib/core/realtime";
+export { TabSync } from "./lib/core/tab-sync";
+export { bracketDialect, suffixDialect } from "./lib/core/filter-dialect";
+export type { FilterDialect } from "./lib/core/filter-dialect";
+export {
+    bareResponse,
+    createEnvelopeAdapter,
+    dataEnvelope,
+} from "./lib/core/response-adapter";
+export type {
+    EnvelopeFields,
+    ResponseAdapter,
+} from "./lib/core/response-adapter";
+export type { TabMessage } from "./lib/core/tab-sync";
 
 export { queryClient } from "./query-client";
@@ -1,5 +1,6 @@
 import {
     afterAll,
+    afterEach,
     beforeAll,
     beforeEach,
     describe,
@@ -12,6 +13,12 @@ import {
 let apiRequest: <T = unknown>(url: string, options?: any) => Promise<T>;
 let ApiError: any;
 let setTokenGetter: (getter: any) => void;
+let setTransport: (transport: any) => void;
+let createFetchTransport: (options?: any) => any;
+let addInterceptor: (interceptor: any) => () => void;
+let setTokenRefresher: (refresher: any) => void;
+let TimeoutError: any;
+let NetworkError: any;
 
 // Declare mockFetch here
 const mockFetch = vi.fn();
@@ -35,6 +42,12 @@ describe("API Tests", () => {
         apiRequest = apiModule.apiRequest;
         ApiError = apiModule.ApiError;
         setTokenGetter = apiModule.setTokenGetter;
+        setTransport = apiModule.setTransport;
+        createFetchTransport = apiModule.createFetchTransport;
+        addInterceptor = apiModule.addInterceptor;
+        setTokenRefresher = apiModule.setTokenRefresher;
+        TimeoutError = apiModule.TimeoutError;
+        NetworkError = apiModule.NetworkError;
 
         // Configure the token getter with our mock
         setTokenGetter(mockTokenGetter);
@@ -295,4 +308,337 @@ describe("API Tests", () => {
             }
         );
     });
+
+    describe("transport", () => {
+        const okResponse = () =>
+            new Response(JSON.stringify({ ok: true }), {
+                status: 200,
+                statusText: "OK",
+                headers: { "Content-Type": "application/json" },
+            });
+
+        it("should use a per-request transport instead of global fetch", async () => {
+            const transport = vi.fn().mockResolvedValue(okResponse());
+
+            const result = await apiRequest("/data", { transport });
+
+            expect(result).toEqual({ ok: true });
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(transport).toHaveBeenCalledWith("/data", {
+                headers: { "Content-Type": "application/json" },
+                body: undefined,
+            });
+        });
+
+        it("should use the transport configured via setTransport", async () => {
+            const transport = vi.fn().mockResolvedValue(okResponse());
+            setTransport(transport);
+
+            try {
+                await apiRequest("/data");
+                expect(transport).toHaveBeenCalledTimes(1);
+                expect(mockFetch).not.toHaveBeenCalled();
+            } finally {
+                setTransport(createFetchTransport({ baseUrl: API_BASE_URL }));
+            }
+        });
+
+        it("createFetchTransport should prefix the base URL and use the given fetch", async () => {
+            const customFetch = vi.fn().mockResolvedValue(okResponse());
+            const transport = createFetchTransport({
+                baseUrl: "https://tenant.example.com",
+                fetch: customFetch,
+            });
+
+            await apiRequest("/data", { transport });
+
+            expect(customFetch).toHaveBeenCalledWith(
+                "https://tenant.example.com/data",
+                expect.any(Object)
+            );
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("interceptors", () => {
+        const jsonResponse = (body: unknown, status = 200) =>
+            new Response(JSON.stringify(body), {
+                status,
+                statusText: status === 200 ? "OK" : "Error",
+                headers: { "Content-Type": "application/json" },
+            });
+
+        it("should let onRequest rewrite url and headers", async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({}));
+            const remove = addInterceptor({
+                onRequest: ({ url, init }: any) => ({
+                    url: `${url}?traced=1`,
+                    init: {
+                        ...init,
+                        headers: { ...init.headers, "X-Trace-Id": "t1" },
+                    },
+                }),
+            });
+
+            try {
+                await apiRequest("/data");
+            } finally {
+                remove();
+            }
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                `${API_BASE_URL}/data?traced=1`,
+                {
+                    headers: {
+                        "Content-Type": "application/json",
+                        "X-Trace-Id": "t1",
+                    },
+                    body: undefined,
+                }
+            );
+        });
+
+        it("should run onRequest outside-in and onResponse inside-out", async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ value: 1 }));
+            const calls: string[] = [];
+            const remove = addInterceptor({
+                onRequest: () => void calls.push("global:request"),
+                onResponse: (data: any) => {
+                    calls.push("global:response");
+                    return { ...data, global: true };
+                },
+            });
+
+            let result: unknown;
+            try {
+                result = await apiRequest("/data", {
+                    interceptors: [
+                        {
+                            onRequest: () =>
+                                void calls.push("resource:request"),
+                            onResponse: (data: any) => {
+                                calls.push("resource:response");
+                                return { unwrapped: data.value };
+                            },
+                        },
+                    ],
+                });
+            } finally {
+                remove();
+            }
+
+            expect(calls).toEqual([
+                "global:request",
+                "resource:request",
+                "resource:response",
+                "global:response",
+            ]);
+            // Global interceptor sees the resource-unwrapped value
+            expect(result).toEqual({ unwrapped: 1, global: true });
+        });
+
+        it("should let onError translate errors", async () => {
+            mockFetch.mockResolvedValueOnce(
+                jsonResponse({ message: "Nope" }, 403)
+            );
+            class ForbiddenError extends Error {}
+
+            await expect(
+                apiRequest("/secret", {
+                    interceptors: [
+                        {
+                            onError: (error: any) =>
+                                error instanceof ApiError &&
+                                error.status === 403
+                                    ? new ForbiddenError("forbidden")
+                                    : error,
+                        },
+                    ],
+                })
+            ).rejects.toBeInstanceOf(ForbiddenError);
+        });
+
+        it("should stop applying an interceptor once removed", async () => {
+            mockFetch.mockResolvedValueOnce(jsonResponse({ value: 1 }));
+            const onResponse = vi.fn();
+            const remove = addInterceptor({ onResponse });
+            remove();
+
+            await apiRequest("/data");
+
+            expect(onResponse).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("token refresh", () => {
+        const unauthorized = () =>
+            new Response(JSON.stringify({ message: "Expired" }), {
+                status: 401,
+                statusText: "Unauthorized",
+                headers: { "Content-Type": "application/json" },
+            });
+        const ok = (body: unknown) =>
+            new Response(JSON.stringify(body), {
+                status: 200,
+                statusText: "OK",
+                headers: { "Content-Type": "application/json" },
+            });
+
+        afterEach(() => {
+            setTokenRefresher(null);
+            mockFetch.mockReset();
+        });
+
+        it("should refresh once and replay concurrent 401 requests with the new token", async () => {
+            mockTokenGetter.mockResolvedValue("stale-token");
+            mockFetch.mockImplementation(async (_url: string, init: any) =>
+                init.headers.Authorization === "Bearer fresh-token"
+                    ? ok({ ok: true })
+                    : unauthorized()
+            );
+            const refresher = vi.fn(async () => {
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                return "fresh-token";
+            });
+            setTokenRefresher(refresher);
+
+            const results = await Promise.all([
+                apiRequest("/a"),
+                apiRequest("/b"),
+                apiRequest("/c"),
+            ]);
+
+            expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+            expect(refresher).toHaveBeenCalledTimes(1);
+            expect(mockFetch).toHaveBeenCalledTimes(6);
+        });
+
+        it("should replay with the current token if a refresh finished meanwhile", async () => {
+            mockTokenGetter
+                .mockResolvedValueOnce("stale-token")
+                .mockResolvedValue("fresh-token");
+            mockFetch.mockImplementation(async (_url: string, init: any) =>
+                init.headers.Authorization === "Bearer fresh-token"
+                    ? ok({ ok: true })
+                    : unauthorized()
+            );
+            const refresher = vi.fn().mockResolvedValue("newer-token");
+            setTokenRefresher(refresher);
+
+            const result = await apiRequest("/a");
+
+            expect(result).toEqual({ ok: true });
+            expect(refresher).not.toHaveBeenCalled();
+            expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe(
+                "Bearer fresh-token"
+            );
+        });
+
+        it("should surface the ApiError when the refresh fails", async () => {
+            mockFetch.mockImplementation(async () => unauthorized());
+            setTokenRefresher(vi.fn().mockRejectedValue(new Error("revoked")));
+
+            await expect(apiRequest("/a")).rejects.toMatchObject({
+                name: "ApiError",
+                status: 401,
+            });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not refresh when skipTokenRefresh is set", async () => {
+            mockFetch.mockImplementation(async () => unauthorized());
+            const refresher = vi.fn().mockResolvedValue("fresh-token");
+            setTokenRefresher(refresher);
+
+            await expect(
+                apiRequest("/auth/refresh", { skipTokenRefresh: true })
+            ).rejects.toMatchObject({ status: 401 });
+            expect(refresher).not.toHaveBeenCalled();
+        });
+
+        it("should prefer per-request token getter and refresher", async () => {
+            const globalRefresher = vi.fn().mockResolvedValue("global-token");
+            setTokenRefresher(globalRefresher);
+            mockFetch.mockImplementation(async (_url: string, init: any) =>
+                init.headers.Authorization === "Bearer user-fresh"
+                    ? ok({ ok: true })
+                    : unauthorized()
+            );
+            const tokenRefresher = vi.fn().mockResolvedValue("user-fresh");
+
+            const result = await apiRequest("/a", {
+                tokenGetter: () => "user-stale",
+                tokenRefresher,
+            });
+
+            expect(result).toEqual({ ok: true });
+            expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(
+                "Bearer user-stale"
+            );
+            expect(tokenRefresher).toHaveBeenCalledTimes(1);
+            expect(globalRefresher).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("network errors", () => {
+        it("should report transport failures as a NetworkError", async () => {
+            const cause = new TypeError("Failed to fetch");
+            const transport = vi.fn().mockRejectedValue(cause);
+
+            const error = await apiRequest("/data", { transport }).catch(
+                (e: unknown) => e
+            );
+
+            expect(error).toBeInstanceOf(NetworkError);
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error).toMatchObject({ status: 0, cause });
+        });
+    });
+
+    describe("timeout", () => {
+        const hangingTransport = vi.fn(
+            (_url: string, init: RequestInit) =>
+                new Promise<Response>((_, reject) => {
+                    const abort = () =>
+                        reject(new DOMException("Aborted", "AbortError"));
+                    if (init.signal?.aborted) abort();
+                    init.signal?.addEventListener("abort", abort);
+                })
+        );
+
+        it("should abort stalled requests with a TimeoutError", async () => {
+            const error = await apiRequest("/slow", {
+                transport: hangingTransport,
+                timeout: 20,
+            }).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error).toMatchObject({ timeout: 20, status: 0 });
+            const init = hangingTransport.mock.calls[0][1];
+            expect(init.signal?.aborted).toBe(true);
+        });
+
+        it("should time out even if the transport ignores the signal", async () => {
+            const transport = vi.fn(() => new Promise<Response>(() => {}));
+
+            await expect(
+                apiRequest("/slow", { transport, timeout: 20 })
+            ).rejects.toBeInstanceOf(TimeoutError);
+        });
+
+        it("should still honor the caller's signal", async () => {
+            const controller = new AbortController();
+            const promise = apiRequest("/slow", {
+                transport: hangingTransport,
+                timeout: 10_000,
+                signal: controller.signal,
+            });
+            controller.abort();
+
+            await expect(promise).rejects.toMatchObject({
+                name: "AbortError",
+            });
+        });
+    });
 });
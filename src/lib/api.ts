@@ -6,13 +6,50 @@ export class ApiError extends Error {
         message: string,
         public status: number,
         public statusText: string,
-        public data?: unknown
+        public data?: unknown,
+        public headers?: Headers
     ) {
         super(message);
         this.name = "ApiError";
     }
 }
 
+/**
+ * Error thrown when an API request doesn't complete within its timeout.
+ *
+ * Extends ApiError (with status 0) so existing error handling keeps working,
+ * while `instanceof TimeoutError` lets the UI tell stalled requests apart
+ * from HTTP errors.
+ */
+export class TimeoutError extends ApiError {
+    constructor(public timeout: number) {
+        super(`API request timed out after ${timeout}ms`, 0, "Timeout");
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * Error thrown when the transport fails without a response (e.g., fetch's
+ * `TypeError` while offline or when the server can't be reached).
+ *
+ * Extends ApiError (with status 0), like TimeoutError. The transport's error
+ * is kept as `cause`, and `instanceof NetworkError` tells transport failures
+ * apart from errors thrown by app code.
+ */
+export class NetworkError extends ApiError {
+    constructor(cause: unknown) {
+        super(
+            `API request failed without a response: ${
+                cause instanceof Error ? cause.message : String(cause)
+            }`,
+            0,
+            "Network Error"
+        );
+        this.name = "NetworkError";
+        this.cause = cause;
+    }
+}
+
 export type TokenGetter = () =>
     | Promise<string | null | undefined>
     | string
@@ -29,8 +66,207 @@ export function setTokenGetter(getter: TokenGetter) {
     tokenGetter = getter;
 }
 
+/**
+ * Produces a fresh access token after the current one was rejected.
+ * Resolve with `null`/`undefined` (or reject) when the session cannot be refreshed.
+ */
+export type TokenRefresher = () => Promise<string | null | undefined>;
+
+let tokenRefresher: TokenRefresher | null = null;
+const pendingRefreshes = new Map<
+    TokenRefresher,
+    Promise<string | null | undefined>
+>();
+
+/**
+ * Configures the callback used to refresh the access token on 401 responses.
+ *
+ * When a request fails with 401, the refresher is called once (concurrent 401s
+ * share the same refresh) and the failed requests are replayed with the new token.
+ * The token getter should return the refreshed token afterwards: a request
+ * rejected for a token that has since been replaced is replayed with the
+ * current token rather than refreshing again.
+ * Requests that hit the refresh endpoint through apiRequest must pass
+ * `skipTokenRefresh: true` to avoid waiting on themselves.
+ *
+ * @example
+ * ```ts
+ * setTokenRefresher(async () => {
+ *     const { accessToken } = await apiRequest<{ accessToken: string }>(
+ *         "/auth/refresh",
+ *         { method: "POST", skipTokenRefresh: true }
+ *     );
+ *     return accessToken;
+ * });
+ * ```
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+    tokenRefresher = refresher;
+}
+
+/**
+ * Runs the token refresher, deduplicating concurrent refresh attempts per refresher.
+ * Resolves with `null` if the refresh fails.
+ */
+function refreshToken(
+    refresher: TokenRefresher
+): Promise<string | null | undefined> {
+    let pending = pendingRefreshes.get(refresher);
+    if (!pending) {
+        pending = Promise.resolve()
+            .then(refresher)
+            .catch(() => null)
+            .finally(() => {
+                pendingRefreshes.delete(refresher);
+            });
+        pendingRefreshes.set(refresher, pending);
+    }
+    return pending;
+}
+
+/**
+ * Executes an HTTP request and resolves with the raw response.
+ *
+ * The default transport uses the global `fetch`, but any executor that speaks
+ * the Fetch API `Response` contract can be plugged in (mock transports for
+ * tests, adapters around other HTTP clients, SSR or worker environments).
+ *
+ * @example
+ * ```ts
+ * const mockTransport: Transport = async (url, init) =>
+ *     new Response(JSON.stringify({ data: [] }), { status: 200 });
+ * ```
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Options for creating a fetch-based transport.
+ */
+export interface FetchTransportOptions {
+    /** Prefix prepended to every request URL (e.g., a per-tenant API host) */
+    baseUrl?: string;
+    /** Fetch implementation to use (defaults to the global `fetch` at call time) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Creates a transport backed by the Fetch API.
+ *
+ * @param options - Base URL and optional fetch implementation
+ * @returns Transport that prefixes the base URL and delegates to fetch
+ *
+ * @example
+ * ```ts
+ * const tenantTransport = createFetchTransport({
+ *     baseUrl: "https://acme.api.example.com",
+ * });
+ * ```
+ */
+export function createFetchTransport(
+    options: FetchTransportOptions = {}
+): Transport {
+    const { baseUrl = "", fetch: fetchImpl } = options;
+
+    return (url, init) => (fetchImpl ?? fetch)(baseUrl + url, init);
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "";
 
+let defaultTransport: Transport = createFetchTransport({
+    baseUrl: API_BASE_URL,
+});
+
+/**
+ * Configures the transport used by requests that don't specify their own.
+ * Defaults to global fetch with `VITE_API_BASE_URL` as the base URL.
+ */
+export function setTransport(transport: Transport) {
+    defaultTransport = transport;
+}
+
+/**
+ * A request as seen (and rewritten) by interceptors.
+ */
+export interface InterceptedRequest {
+    /** Request URL (relative to the transport's base URL) */
+    url: string;
+    /** Fetch options, with headers and JSON body already prepared */
+    init: RequestInit;
+}
+
+/**
+ * Middleware around apiRequest.
+ *
+ * Interceptors form an onion: `onRequest` runs global interceptors first, then
+ * per-request ones; `onResponse` and `onError` run in the reverse order.
+ * Returning `undefined` from any handler leaves the value unchanged.
+ *
+ * @example
+ * ```ts
+ * const tracing: ApiInterceptor = {
+ *     onRequest: ({ url, init }) => ({
+ *         url,
+ *         init: { ...init, headers: { ...init.headers, "X-Trace-Id": newTraceId() } },
+ *     }),
+ *     onResponse: (body) => (body as { payload: unknown }).payload,
+ *     onError: (error) =>
+ *         error instanceof ApiError && error.status === 402 ? new PaymentRequiredError() : error,
+ * };
+ * ```
+ */
+export interface ApiInterceptor {
+    /** Called before the request is sent. May return a rewritten request. */
+    onRequest?: (
+        request: InterceptedRequest
+    ) => InterceptedRequest | void | Promise<InterceptedRequest | void>;
+    /** Called with the parsed response body. May return transformed data. */
+    onResponse?: (
+        data: unknown,
+        context: { request: InterceptedRequest; response: Response }
+    ) => unknown | Promise<unknown>;
+    /** Called when the request fails. May return a translated error to throw instead. */
+    onError?: (
+        error: unknown,
+        request: InterceptedRequest
+    ) => unknown | Promise<unknown>;
+}
+
+const globalInterceptors: ApiInterceptor[] = [];
+
+/**
+ * Registers an interceptor that applies to every API request.
+ * Interceptors run in registration order.
+ *
+ * @returns Function that unregisters the interceptor
+ */
+export function addInterceptor(interceptor: ApiInterceptor): () => void {
+    globalInterceptors.push(interceptor);
+    return () => {
+        const index = globalInterceptors.indexOf(interceptor);
+        if (index !== -1) {
+            globalInterceptors.splice(index, 1);
+        }
+    };
+}
+
+/**
+ * Options accepted by apiRequest: standard fetch options plus request execution overrides.
+ */
+export interface ApiRequestOptions extends RequestInit {
+    /** Transport to execute this request with (defaults to the configured transport) */
+    transport?: Transport;
+    /** Interceptors applied after the global ones (e.g., per-resource middleware) */
+    interceptors?: ApiInterceptor[];
+    /** Token source for this request (defaults to the one set with setTokenGetter) */
+    tokenGetter?: TokenGetter;
+    /** Token refresher for this request (defaults to the one set with setTokenRefresher) */
+    tokenRefresher?: TokenRefresher | null;
+    /** Don't wait for or trigger a token refresh (for the refresh request itself) */
+    skipTokenRefresh?: boolean;
+    /** Milliseconds before the request is aborted with a TimeoutError (0 or unset = none) */
+    timeout?: number;
+}
+
 /**
  * Makes a REST API request with automatic JSON handling and authentication.
  *
@@ -38,43 +274,211 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "";
  * - Automatic JSON encoding for request body
  * - Automatic JSON parsing for response
  * - Automatic authentication token injection via tokenGetter
+ * - Token refresh and replay on 401 via tokenRefresher
+ * - Pluggable transport (global fetch by default)
+ * - Request/response/error interceptors
+ * - Optional timeout (throws TimeoutError)
+ * - Transport failures reported as NetworkError
  * - Error handling with status codes
  * - Type-safe response
  *
  * @param url - The URL to fetch (relative or absolute)
- * @param options - Standard fetch options
+ * @param options - Standard fetch options, plus optional transport, interceptors, auth and timeout
  * @returns Promise resolving to typed response data
- * @throws {ApiError} When the response is not ok (status >= 400)
+ * @throws {ApiError} When the response is not ok (status >= 400),
+ *   or on 401 when the token cannot be refreshed
+ * @throws {TimeoutError} When the request exceeds its timeout
+ * @throws {NetworkError} When the transport fails without a response
  */
 export async function apiRequest<T>(
     url: string,
-    options?: RequestInit
+    options?: ApiRequestOptions
 ): Promise<T> {
-    // Get access token from the configured getter
-    const token = await tokenGetter();
+    const {
+        transport = defaultTransport,
+        interceptors = [],
+        tokenGetter: getToken = tokenGetter,
+        tokenRefresher: refresher = tokenRefresher,
+        skipTokenRefresh = false,
+        timeout,
+        ...init
+    } = options ?? {};
+    const chain = [...globalInterceptors, ...interceptors];
+
+    // Requests issued during a token refresh wait for it to use the new token
+    const pendingRefresh = refresher && pendingRefreshes.get(refresher);
+    if (pendingRefresh && !skipTokenRefresh) {
+        await pendingRefresh;
+    }
+
+    const token = await getToken();
+    // Reported to onError until the outgoing request has been prepared
+    let request: InterceptedRequest = { url, init };
+
+    try {
+        return await withTimeout(timeout, init.signal, async (signal) => {
+            // Route the timeout through the request's signal
+            const requestInit = signal ? { ...init, signal } : init;
+            request = await prepareRequest(url, requestInit, token, chain);
+
+            // Make the request
+            let response = await send(transport, request);
+
+            // On 401, refresh the token once and replay the request with it.
+            // If a refresh finished after the request was sent, the current
+            // token is already fresh: replay with it instead.
+            if (response.status === 401 && refresher && !skipTokenRefresh) {
+                const currentToken = await getToken();
+                const freshToken =
+                    currentToken && currentToken !== token
+                        ? currentToken
+                        : await refreshToken(refresher);
+                if (freshToken) {
+                    request = await prepareRequest(
+                        url,
+                        requestInit,
+                        freshToken,
+                        chain
+                    );
+                    response = await send(transport, request);
+                }
+            }
+
+            let data = await parseResponse<unknown>(response);
+
+            // Let interceptors transform the response (innermost first)
+            for (const interceptor of [...chain].reverse()) {
+                if (interceptor.onResponse) {
+                    data =
+                        (await interceptor.onResponse(data, {
+                            request,
+                            response,
+                        })) ?? data;
+                }
+            }
+
+            return data as T;
+        });
+    } catch (error) {
+        // Let interceptors translate the error (innermost first)
+        let translated = error;
+        for (const interceptor of [...chain].reverse()) {
+            if (interceptor.onError) {
+                translated =
+                    (await interceptor.onError(translated, request)) ??
+                    translated;
+            }
+        }
+        throw translated;
+    }
+}
+
+/**
+ * Sends a request through the transport. Failures without a response become
+ * NetworkErrors; aborts and timeouts are rethrown as they are.
+ */
+async function send(
+    transport: Transport,
+    request: InterceptedRequest
+): Promise<Response> {
+    try {
+        return await transport(request.url, request.init);
+    } catch (error) {
+        const isAbort =
+            (error as { name?: unknown } | null)?.name === "AbortError";
+        if (isAbort || error instanceof ApiError) {
+            throw error;
+        }
+        throw new NetworkError(error);
+    }
+}
+
+/**
+ * Runs a request under a timeout.
+ *
+ * The request receives a signal that aborts when either the caller's signal
+ * aborts or the timeout elapses. The timeout rejects with a TimeoutError even
+ * if the transport ignores the signal.
+ */
+async function withTimeout<R>(
+    timeout: number | undefined,
+    callerSignal: AbortSignal | null | undefined,
+    run: (signal: AbortSignal | undefined) => Promise<R>
+): Promise<R> {
+    if (!timeout) {
+        return run(undefined);
+    }
+
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+        onCallerAbort();
+    } else {
+        callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    }
+
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+        timerId = setTimeout(() => {
+            const error = new TimeoutError(timeout);
+            reject(error);
+            controller.abort(error);
+        }, timeout);
+    });
+
+    try {
+        return await Promise.race([run(controller.signal), timedOut]);
+    } finally {
+        clearTimeout(timerId);
+        callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+}
 
+/**
+ * Builds the outgoing request: JSON headers, authorization, serialized body,
+ * then lets interceptors rewrite it.
+ */
+async function prepareRequest(
+    url: string,
+    init: RequestInit,
+    token: string | null | undefined,
+    chain: ApiInterceptor[]
+): Promise<InterceptedRequest> {
     // Prepare headers with JSON content type and authorization
     const headers: HeadersInit = {
         "Content-Type": "application/json",
         ...(token && {
             Authorization: `Bearer ${token}`,
         }),
-        ...options?.headers,
+        ...init.headers,
     };
 
     // Serialize body to JSON if it's an object
     const body =
-        options?.body && typeof options.body === "object"
-            ? JSON.stringify(options.body)
-            : options?.body;
-
-    // Make the request
-    const response = await fetch(API_BASE_URL + url, {
-        ...options,
-        headers,
-        body,
-    });
+        init.body && typeof init.body === "object"
+            ? JSON.stringify(init.body)
+            : init.body;
 
+    // Let interceptors rewrite the outgoing request
+    let request: InterceptedRequest = {
+        url,
+        init: { ...init, headers, body },
+    };
+    for (const interceptor of chain) {
+        if (interceptor.onRequest) {
+            request = (await interceptor.onRequest(request)) ?? request;
+        }
+    }
+
+    return request;
+}
+
+/**
+ * Converts a transport response into parsed JSON data.
+ *
+ * @throws {ApiError} When the response is not ok or the body is not valid JSON
+ */
+async function parseResponse<T>(response: Response): Promise<T> {
     // Handle error responses
     if (!response.ok) {
         let errorData: unknown;
@@ -94,7 +498,8 @@ export async function apiRequest<T>(
             `API request failed: ${response.status} ${response.statusText}`,
             response.status,
             response.statusText,
-            errorData
+            errorData,
+            response.headers
         );
     }
 
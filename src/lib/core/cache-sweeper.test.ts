@@ -0,0 +1,181 @@
+/**
+ * Unit tests for cache-sweeper.ts
+ *
+ * Tests age- and row-count-based eviction and the reconciliation of
+ * retention metadata with the rows actually stored.
+ */
+
+import Dexie, { type IndexableType, type Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+    CacheSweeper,
+    RETENTION_SCHEMA,
+    RETENTION_TABLE,
+    type RetentionEntry,
+} from "./cache-sweeper";
+import { OUTBOX_SCHEMA, OUTBOX_TABLE, type OutboxEntry } from "./outbox";
+
+const MINUTE = 60_000;
+
+describe("CacheSweeper", () => {
+    let db: Dexie;
+    let notes: Table<{ id: string }, string>;
+    let meta: Table<RetentionEntry, IndexableType>;
+    let sweeper: CacheSweeper;
+    let now: number;
+
+    beforeEach(async () => {
+        db = new Dexie(`CacheSweeperTestDB-${Math.random()}`);
+        db.version(1).stores({
+            notes: "id",
+            [RETENTION_TABLE]: RETENTION_SCHEMA,
+            [OUTBOX_TABLE]: OUTBOX_SCHEMA,
+        });
+        await db.open();
+        notes = db.table("notes");
+        meta = db.table(RETENTION_TABLE);
+        sweeper = new CacheSweeper(() => meta);
+
+        now = 1_000_000;
+        vi.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(async () => {
+        sweeper.stop();
+        vi.restoreAllMocks();
+        await db.delete();
+    });
+
+    /**
+     * Stores notes as if they were just fetched from the server.
+     */
+    async function fetchNotes(...ids: string[]) {
+        await notes.bulkPut(ids.map((id) => ({ id })));
+        await sweeper.recordFetched("notes", ids);
+    }
+
+    async function storedIds() {
+        return (await notes.toCollection().primaryKeys()).sort();
+    }
+
+    it("should evict rows not fetched within maxAgeMs", async () => {
+        sweeper.register("notes", { maxAgeMs: 10 * MINUTE }, () => notes);
+        await fetchNotes("n1", "n2");
+
+        now += 5 * MINUTE;
+        await fetchNotes("n2");
+        // Reading doesn't refresh a row's age
+        await sweeper.recordUsed("notes", ["n1"]);
+
+        now += 6 * MINUTE;
+        expect(await sweeper.sweep()).toBe(1);
+        expect(await storedIds()).toEqual(["n2"]);
+        expect(await meta.count()).toBe(1);
+    });
+
+    it("should evict the least recently used rows over maxRows", async () => {
+        sweeper.register("notes", { maxRows: 2 }, () => notes);
+        await fetchNotes("n1");
+        now += 1;
+        await fetchNotes("n2");
+        now += 1;
+        await fetchNotes("n3");
+
+        now += 1;
+        await sweeper.recordUsed("notes", ["n1"]);
+
+        expect(await sweeper.sweep()).toBe(1);
+        expect(await storedIds()).toEqual(["n1", "n3"]);
+    });
+
+    it("should adopt untracked rows and forget deleted ones", async () => {
+        sweeper.register("notes", { maxAgeMs: 10 * MINUTE }, () => notes);
+        await fetchNotes("n1");
+        await notes.delete("n1");
+        await notes.put({ id: "seeded" });
+
+        expect(await sweeper.sweep()).toBe(0);
+        expect((await meta.toArray()).map((entry) => entry.rowKey)).toEqual([
+            "seeded",
+        ]);
+
+        // Untracked rows start aging when they are adopted
+        now += 11 * MINUTE;
+        expect(await sweeper.sweep()).toBe(1);
+        expect(await storedIds()).toEqual([]);
+    });
+
+    it("should report evictions per resource", async () => {
+        const onEvicted = vi.fn();
+        sweeper = new CacheSweeper(() => meta, { onEvicted });
+        sweeper.register("notes", { maxRows: 1 }, () => notes);
+        await fetchNotes("n1", "n2", "n3");
+
+        await sweeper.sweep();
+        expect(onEvicted).toHaveBeenCalledWith("notes", 2);
+
+        await sweeper.sweep();
+        expect(onEvicted).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep rows with queued offline changes", async () => {
+        const outbox = db.table<OutboxEntry, number>(OUTBOX_TABLE);
+        sweeper = new CacheSweeper(() => meta, {
+            getOutboxTable: () => outbox,
+        });
+        sweeper.register("notes", { maxAgeMs: 10 * MINUTE }, () => notes);
+        await fetchNotes("n1", "n2", "n3");
+        const entry = { op: "update", attempts: 0, createdAt: now } as const;
+        await outbox.bulkAdd([
+            { ...entry, resource: "notes", id: "n1", status: "pending" },
+            { ...entry, resource: "notes", id: "n2", status: "failed" },
+            { ...entry, resource: "tasks", id: "n3", status: "pending" },
+        ]);
+
+        now += 11 * MINUTE;
+        expect(await sweeper.sweep()).toBe(1);
+        expect(await storedIds()).toEqual(["n1", "n2"]);
+
+        // Settled rows are evicted by the next sweep
+        await outbox.clear();
+        expect(await sweeper.sweep()).toBe(2);
+        expect(await storedIds()).toEqual([]);
+    });
+
+    it("should only sweep resources with a registered policy", async () => {
+        await fetchNotes("n1");
+        now += 60 * MINUTE;
+
+        expect(await sweeper.sweep()).toBe(0);
+        expect(await storedIds()).toEqual(["n1"]);
+    });
+
+    it("should do nothing before the database is initialized", async () => {
+        sweeper = new CacheSweeper(() => undefined);
+        sweeper.register("notes", { maxRows: 0 }, () => notes);
+        await notes.put({ id: "n1" });
+
+        await sweeper.recordFetched("notes", ["n1"]);
+        expect(await sweeper.sweep()).toBe(0);
+        expect(await storedIds()).toEqual(["n1"]);
+    });
+
+    it("should sweep immediately and then at the interval", async () => {
+        const sweep = vi.spyOn(sweeper, "sweep").mockResolvedValue(0);
+        vi.useFakeTimers();
+        try {
+            sweeper.start(MINUTE);
+            expect(sweep).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(2 * MINUTE);
+            expect(sweep).toHaveBeenCalledTimes(3);
+
+            sweeper.stop();
+            vi.advanceTimersByTime(2 * MINUTE);
+            expect(sweep).toHaveBeenCalledTimes(3);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
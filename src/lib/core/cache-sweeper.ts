@@ -0,0 +1,341 @@
+/**
+ * Retention of cached rows.
+ *
+ * This module records when each cached row was last fetched from the server
+ * and last read, and periodically evicts rows that exceed their resource's
+ * retention policy (maximum age and/or maximum row count).
+ */
+
+import type { IndexableType, Table } from "dexie";
+
+import type { OutboxEntry } from "./outbox";
+
+/** Name of the Dexie table that stores row retention metadata */
+export const RETENTION_TABLE = "_retention";
+
+/** Dexie store spec of the retention table */
+export const RETENTION_SCHEMA = "[resource+rowKey], resource";
+
+/**
+ * Retention policy for a resource's cached rows.
+ *
+ * @example
+ * ```ts
+ * {
+ *   maxAgeMs: 7 * 24 * 60 * 60 * 1000, // drop rows not fetched for a week
+ *   maxRows: 500,                      // keep the 500 most recently used rows
+ * }
+ * ```
+ */
+export interface RetentionPolicy {
+    /** Evict rows that haven't been fetched from the server for this long (ms) */
+    maxAgeMs?: number;
+    /** Keep at most this many rows, evicting the least recently used ones */
+    maxRows?: number;
+}
+
+/**
+ * Retention metadata of a cached row.
+ */
+export interface RetentionEntry {
+    /** Name of the resource the row belongs to */
+    resource: string;
+    /** Primary key of the row in the resource's table */
+    rowKey: IndexableType;
+    /** Time the row was last fetched from the server (ms since epoch) */
+    fetchedAt: number;
+    /** Time the row was last fetched or read from the cache (ms since epoch) */
+    usedAt: number;
+}
+
+/**
+ * Options for creating a CacheSweeper.
+ */
+export interface CacheSweeperOptions {
+    /** Called after rows of a resource were evicted */
+    onEvicted?: (resource: string, count: number) => void;
+    /** Returns the outbox table; rows with queued offline changes are never evicted */
+    getOutboxTable?: () => Table<OutboxEntry, number> | undefined;
+}
+
+/**
+ * A resource whose rows are subject to a retention policy.
+ */
+interface TrackedResource {
+    policy: RetentionPolicy;
+    getTable: () => Table<unknown, IndexableType> | undefined;
+    toRowKey: (id: unknown) => IndexableType;
+}
+
+/**
+ * Builds the retention table key of a row.
+ */
+function toMetaKey(resource: string, rowKey: IndexableType): IndexableType {
+    return [resource, rowKey] as IndexableType;
+}
+
+/**
+ * Serializes a row key for set membership (keys may be arrays).
+ */
+function toKeyString(key: IndexableType): string {
+    return JSON.stringify(key);
+}
+
+/**
+ * Evicts cached rows according to per-resource retention policies.
+ *
+ * Resources opt in with `retention`; their operations record when rows are
+ * fetched and read. Each sweep first adopts rows written without metadata
+ * (e.g., seeded rows, which start aging at that point) and drops metadata of
+ * deleted rows, then evicts expired rows followed by the least recently used
+ * rows over `maxRows`. Rows with offline changes still in the outbox are kept
+ * (they count toward `maxRows`).
+ *
+ * @example
+ * ```ts
+ * // Enforce retention now instead of waiting for the next interval
+ * const evicted = await query.sweeper.sweep();
+ * ```
+ */
+export class CacheSweeper {
+    private getTable: () => Table<RetentionEntry, IndexableType> | undefined;
+    private options: CacheSweeperOptions;
+    private resources = new Map<string, TrackedResource>();
+    private sweeping: Promise<number> | null = null;
+    private timerId: ReturnType<typeof setInterval> | null = null;
+
+    /**
+     * @param getTable - Returns the retention table (undefined until the database is initialized)
+     * @param options - Optional callbacks
+     */
+    constructor(
+        getTable: () => Table<RetentionEntry, IndexableType> | undefined,
+        options: CacheSweeperOptions = {}
+    ) {
+        this.getTable = getTable;
+        this.options = options;
+    }
+
+    /**
+     * Registers the retention policy of a resource.
+     *
+     * @param resource - The resource name
+     * @param policy - The retention policy
+     * @param getTable - Returns the resource's table (undefined until initialized)
+     * @param toRowKey - Maps an outbox entry's ID to the row's primary key
+     */
+    register(
+        resource: string,
+        policy: RetentionPolicy,
+        getTable: () => Table<unknown, IndexableType> | undefined,
+        toRowKey: (id: unknown) => IndexableType = (id) => id as IndexableType
+    ): void {
+        this.resources.set(resource, { policy, getTable, toRowKey });
+    }
+
+    /**
+     * Records that rows were just fetched from the server.
+     *
+     * @param resource - The resource name
+     * @param rowKeys - Primary keys of the fetched rows
+     */
+    async recordFetched(
+        resource: string,
+        rowKeys: IndexableType[]
+    ): Promise<void> {
+        const table = this.getTable();
+        if (!table || rowKeys.length === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        await table.bulkPut(
+            rowKeys.map((rowKey) => ({
+                resource,
+                rowKey,
+                fetchedAt: now,
+                usedAt: now,
+            }))
+        );
+    }
+
+    /**
+     * Records that rows were just read from the cache.
+     *
+     * @param resource - The resource name
+     * @param rowKeys - Primary keys of the rows read
+     */
+    async recordUsed(
+        resource: string,
+        rowKeys: IndexableType[]
+    ): Promise<void> {
+        const table = this.getTable();
+        if (!table || rowKeys.length === 0) {
+            return;
+        }
+
+        await table
+            .where("[resource+rowKey]")
+            .anyOf(rowKeys.map((rowKey) => toMetaKey(resource, rowKey)))
+            .modify({ usedAt: Date.now() });
+    }
+
+    /**
+     * Enforces the retention policies of all registered resources.
+     * Concurrent calls share one run.
+     *
+     * @returns Number of evicted rows
+     */
+    sweep(): Promise<number> {
+        if (!this.sweeping) {
+            this.sweeping = this.sweepAll().finally(() => {
+                this.sweeping = null;
+            });
+        }
+        return this.sweeping;
+    }
+
+    /**
+     * Sweeps now and then at the given interval.
+     *
+     * @param intervalMs - Time between sweeps in milliseconds
+     */
+    start(intervalMs: number): void {
+        if (this.timerId) {
+            return;
+        }
+
+        const run = () => {
+            this.sweep().catch((err) => {
+                console.error(`[Query] Failed to sweep the cache: `, err);
+            });
+        };
+        this.timerId = setInterval(run, intervalMs);
+        run();
+    }
+
+    /**
+     * Stops sweeping at intervals.
+     */
+    stop(): void {
+        if (this.timerId) {
+            clearInterval(this.timerId);
+            this.timerId = null;
+        }
+    }
+
+    /**
+     * Sweeps each registered resource in turn.
+     */
+    private async sweepAll(): Promise<number> {
+        let evicted = 0;
+        for (const [resource, tracked] of this.resources.entries()) {
+            const count = await this.sweepResource(resource, tracked);
+            if (count > 0) {
+                this.options.onEvicted?.(resource, count);
+            }
+            evicted += count;
+        }
+        return evicted;
+    }
+
+    /**
+     * Reconciles a resource's metadata with its rows and evicts the rows
+     * that exceed its policy, in one transaction.
+     */
+    private async sweepResource(
+        resource: string,
+        { policy, getTable, toRowKey }: TrackedResource
+    ): Promise<number> {
+        const metaTable = this.getTable();
+        const table = getTable();
+        if (!metaTable || !table) {
+            return 0;
+        }
+
+        const outboxTable = this.options.getOutboxTable?.();
+        const tables = outboxTable
+            ? [table, metaTable, outboxTable]
+            : [table, metaTable];
+        return table.db.transaction("rw", tables, async () => {
+            const now = Date.now();
+            const rowKeys = await table.toCollection().primaryKeys();
+            const entries = await metaTable
+                .where("resource")
+                .equals(resource)
+                .toArray();
+
+            // Adopt rows written without metadata, forget rows deleted since
+            const tracked = new Set(entries.map((e) => toKeyString(e.rowKey)));
+            const present = new Set(rowKeys.map(toKeyString));
+            const untracked = rowKeys
+                .filter((rowKey) => !tracked.has(toKeyString(rowKey)))
+                .map((rowKey) => ({
+                    resource,
+                    rowKey,
+                    fetchedAt: now,
+                    usedAt: now,
+                }));
+            const orphaned = entries.filter(
+                (entry) => !present.has(toKeyString(entry.rowKey))
+            );
+            await metaTable.bulkPut(untracked);
+            await metaTable.bulkDelete(
+                orphaned.map((entry) => toMetaKey(resource, entry.rowKey))
+            );
+
+            // Rows with queued offline changes stay until the outbox settles them
+            const queued = outboxTable
+                ? await outboxTable.where("resource").equals(resource).toArray()
+                : [];
+            const held = new Set(
+                queued
+                    .filter((entry) => entry.id !== undefined)
+                    .map((entry) => toKeyString(toRowKey(entry.id)))
+            );
+
+            const current = [
+                ...entries.filter((entry) =>
+                    present.has(toKeyString(entry.rowKey))
+                ),
+                ...untracked,
+            ];
+            let live = current.filter(
+                (entry) => !held.has(toKeyString(entry.rowKey))
+            );
+            const maxRows =
+                policy.maxRows === undefined
+                    ? undefined
+                    : Math.max(
+                          policy.maxRows - (current.length - live.length),
+                          0
+                      );
+            const evicted: RetentionEntry[] = [];
+
+            if (policy.maxAgeMs !== undefined) {
+                const cutoff = now - policy.maxAgeMs;
+                evicted.push(
+                    ...live.filter((entry) => entry.fetchedAt < cutoff)
+                );
+                live = live.filter((entry) => entry.fetchedAt >= cutoff);
+            }
+
+            if (maxRows !== undefined && live.length > maxRows) {
+                const leastRecentlyUsed = [...live].sort(
+                    (a, b) => a.usedAt - b.usedAt
+                );
+                evicted.push(
+                    ...leastRecentlyUsed.slice(0, live.length - maxRows)
+                );
+            }
+
+            if (evicted.length > 0) {
+                await table.bulkDelete(evicted.map((entry) => entry.rowKey));
+                await metaTable.bulkDelete(
+                    evicted.map((entry) => toMetaKey(resource, entry.rowKey))
+                );
+            }
+            return evicted.length;
+        });
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * Query-string dialects for structured list filters.
+ *
+ * APIs disagree on how filter operators are written in the query string
+ * (`price[gte]=10`, `price__gte=10`, ...). A dialect names the query param
+ * of each condition, so `URLBuilder.buildUrl` can serialize the same
+ * `ListParams` that are evaluated locally by `filterEntities`.
+ */
+
+import type { FilterOperator } from "../types";
+
+/**
+ * Names the query params of filter conditions.
+ *
+ * Implement this interface to match another API's filter syntax.
+ */
+export interface FilterDialect {
+    /**
+     * Builds the query param name of a condition.
+     *
+     * @param path - The field name, preceded by `"or"` and the group index
+     *   for conditions inside `$or` groups (e.g., `["or", "0", "status"]`)
+     * @param operator - The condition's operator
+     * @returns The query param name (e.g., "price[gte]")
+     */
+    paramName(path: string[], operator: FilterOperator): string;
+    /** Whether the API understands `$or` groups (default: true) */
+    supportsOr?: boolean;
+}
+
+/**
+ * Bracket dialect (default): `price[gte]=10`, `status[in]=open,closed`,
+ * `or[0][status]=open`. Equality keeps the plain field name (`status=open`).
+ *
+ * @example
+ * ```ts
+ * bracketDialect.paramName(["price"], "gte")            // => "price[gte]"
+ * bracketDialect.paramName(["or", "1", "owner"], "eq")  // => "or[1][owner]"
+ * ```
+ */
+export const bracketDialect: FilterDialect = {
+    paramName(path, operator) {
+        const [field, ...nested] = path;
+        const name = field + nested.map((part) => `[${part}]`).join("");
+        return operator === "eq" ? name : `${name}[${operator}]`;
+    },
+};
+
+/**
+ * Lookup suffixes of the double-underscore dialect.
+ */
+const SUFFIXES: Record<FilterOperator, string> = {
+    eq: "",
+    ne: "__ne",
+    gt: "__gt",
+    gte: "__gte",
+    lt: "__lt",
+    lte: "__lte",
+    in: "__in",
+    nin: "__nin",
+    contains: "__contains",
+    startsWith: "__startswith",
+    isNull: "__isnull",
+};
+
+/**
+ * Double-underscore dialect of Django-style APIs: `price__gte=10`,
+ * `status__in=open,closed`, `deletedAt__isnull=true`.
+ * OR groups can't be expressed and throw when serialized.
+ *
+ * @example
+ * ```ts
+ * suffixDialect.paramName(["name"], "startsWith")  // => "name__startswith"
+ * ```
+ */
+export const suffixDialect: FilterDialect = {
+    paramName(path, operator) {
+        return `${path.join("__")}${SUFFIXES[operator]}`;
+    },
+    supportsOr: false,
+};
@@ -69,6 +69,25 @@ export function getEntityId<T, ID>(entity: T, keyFields?: string[]): ID {
     return (entity as { id: ID }).id;
 }
 
+/**
+ * Checks whether an entity carries every key field (e.g., a client-generated ID).
+ *
+ * @param entity - The entity to check
+ * @param keyFields - Optional array of key field names for composite keys
+ * @returns True if the entity's key is complete
+ *
+ * @example
+ * ```ts
+ * hasEntityKey({ id: "123", name: "User" })         // => true
+ * hasEntityKey({ name: "User" })                    // => false
+ * hasEntityKey({ space: "s1" }, ["space", "name"])  // => false
+ * ```
+ */
+export function hasEntityKey<T>(entity: T, keyFields?: string[]): boolean {
+    const fields = keyFields && keyFields.length > 0 ? keyFields : ["id"];
+    return fields.every((field) => (entity as Any)[field] !== undefined);
+}
+
 /**
  * Serializes an ID for use in query keys.
  *
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for indexes.ts
+ *
+ * Tests index spec generation and index selection for list filters.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { buildIndexSpec, findIndexLookup } from "./indexes";
+
+describe("indexes", () => {
+    describe("buildIndexSpec", () => {
+        it("should build simple and compound specs", () => {
+            expect(buildIndexSpec("status")).toBe("status");
+            expect(buildIndexSpec(["spaceId", "status"])).toBe(
+                "[spaceId+status]"
+            );
+            expect(buildIndexSpec({ fields: ["status"] })).toBe("status");
+        });
+
+        it("should prefix unique and multi-entry specs", () => {
+            expect(buildIndexSpec({ fields: "slug", unique: true })).toBe(
+                "&slug"
+            );
+            expect(buildIndexSpec({ fields: "tags", multiEntry: true })).toBe(
+                "*tags"
+            );
+        });
+
+        it("should reject invalid definitions", () => {
+            expect(() => buildIndexSpec([])).toThrowError(/at least one/);
+            expect(() =>
+                buildIndexSpec({ fields: ["a", "b"], multiEntry: true })
+            ).toThrowError(/can't be multi-entry/);
+        });
+    });
+
+    describe("findIndexLookup", () => {
+        const indexes = ["status", ["spaceId", "status"], "priority"];
+
+        it("should return undefined without a matching index", () => {
+            expect(
+                findIndexLookup(undefined, { status: "open" })
+            ).toBeUndefined();
+            expect(findIndexLookup(indexes, undefined)).toBeUndefined();
+            expect(findIndexLookup(indexes, { title: "x" })).toBeUndefined();
+        });
+
+        it("should prefer the index covering the most params", () => {
+            expect(
+                findIndexLookup(indexes, { spaceId: "s1", status: "open" })
+            ).toEqual({
+                index: "[spaceId+status]",
+                keys: [["s1", "open"]],
+                fields: ["spaceId", "status"],
+            });
+        });
+
+        it("should match numeric strings as numbers too", () => {
+            expect(findIndexLookup(indexes, { priority: "2" })).toEqual({
+                index: "priority",
+                keys: ["2", 2],
+                fields: ["priority"],
+            });
+        });
+
+        it("should look up every value of array params", () => {
+            expect(
+                findIndexLookup(indexes, { status: ["open", "closed"] })?.keys
+            ).toEqual(["open", "closed"]);
+        });
+
+        it("should skip boolean values", () => {
+            expect(findIndexLookup(["done"], { done: true })).toBeUndefined();
+            expect(
+                findIndexLookup(["done"], { done: "false" })
+            ).toBeUndefined();
+        });
+
+        it("should leave structured conditions to in-memory filtering", () => {
+            expect(
+                findIndexLookup(["priority", "status"], {
+                    priority: { gte: 2 },
+                    status: "open",
+                })
+            ).toEqual({ index: "status", keys: ["open"], fields: ["status"] });
+        });
+    });
+});
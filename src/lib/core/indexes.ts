@@ -0,0 +1,214 @@
+/**
+ * Secondary index specs and index lookups for resource tables.
+ *
+ * This module turns declarative index definitions into Dexie store spec
+ * entries and picks the index that best answers a list query's filter params.
+ */
+
+import type { IndexableType, Table } from "dexie";
+
+import type { IndexDefinition, ListParams } from "../types";
+import { filterEntities, isFilterCondition } from "../utils/filter-matcher";
+
+/**
+ * Index definition with every option spelled out.
+ */
+interface ResolvedIndex {
+    /** Indexed fields (more than one for compound indexes) */
+    fields: string[];
+    /** Whether indexed values must be unique */
+    unique: boolean;
+    /** Whether array values are indexed element by element */
+    multiEntry: boolean;
+}
+
+/**
+ * Index lookup answering some of a list query's filter params.
+ */
+export interface IndexLookup {
+    /** Dexie index name (e.g., "status" or "[spaceId+status]") */
+    index: string;
+    /** Index keys to match with `anyOf` */
+    keys: IndexableType[];
+    /** Filter params fully answered by the lookup */
+    fields: string[];
+}
+
+/**
+ * Expands the shorthand forms of an index definition.
+ *
+ * @throws {Error} If the definition has no fields, or is both compound and multi-entry
+ */
+function resolveIndex(definition: IndexDefinition): ResolvedIndex {
+    const {
+        fields,
+        unique = false,
+        multiEntry = false,
+    } = typeof definition === "string" || Array.isArray(definition)
+        ? { fields: definition }
+        : definition;
+    const fieldList = Array.isArray(fields) ? fields : [fields];
+
+    if (fieldList.length === 0) {
+        throw new Error(`Index definitions must name at least one field.`);
+    }
+    if (multiEntry && fieldList.length > 1) {
+        throw new Error(
+            `Compound index [${fieldList.join("+")}] can't be multi-entry.`
+        );
+    }
+
+    return { fields: fieldList, unique, multiEntry };
+}
+
+/**
+ * Gets the Dexie name of an index: the field, or `[a+b]` for compound indexes.
+ */
+function getIndexName({ fields }: ResolvedIndex): string {
+    return fields.length > 1 ? `[${fields.join("+")}]` : fields[0];
+}
+
+/**
+ * Builds the Dexie store spec entry for an index definition.
+ *
+ * @param definition - The index definition
+ * @returns Spec entry, prefixed with `&` (unique) or `*` (multi-entry) when needed
+ * @throws {Error} If the definition is invalid
+ *
+ * @example
+ * ```ts
+ * buildIndexSpec("status")                                // => "status"
+ * buildIndexSpec(["spaceId", "status"])                   // => "[spaceId+status]"
+ * buildIndexSpec({ fields: "tags", multiEntry: true })    // => "*tags"
+ * buildIndexSpec({ fields: "email", unique: true })       // => "&email"
+ * ```
+ */
+export function buildIndexSpec(definition: IndexDefinition): string {
+    const resolved = resolveIndex(definition);
+    const prefix = resolved.unique ? "&" : resolved.multiEntry ? "*" : "";
+    return `${prefix}${getIndexName(resolved)}`;
+}
+
+/**
+ * Converts a filter param value into the index keys it can match.
+ *
+ * Filters compare values as strings, so "5" also matches a stored 5.
+ * Booleans, `"true"` and `"false"` return undefined: booleans aren't valid
+ * IndexedDB keys, so rows holding them are missing from the index.
+ * Structured conditions return undefined too; they're filtered in memory.
+ */
+function toIndexKeys(value: ListParams[string]): IndexableType[] | undefined {
+    if (value === undefined || isFilterCondition(value)) {
+        return undefined;
+    }
+
+    const keys: IndexableType[] = [];
+    for (const item of Array.isArray(value) ? value : [value]) {
+        if (typeof item === "object") {
+            return undefined;
+        }
+
+        const text = String(item);
+        if (typeof item === "boolean" || text === "true" || text === "false") {
+            return undefined;
+        }
+
+        keys.push(text);
+        const number = Number(text);
+        if (text.trim() !== "" && String(number) === text) {
+            keys.push(number);
+        }
+    }
+    return keys;
+}
+
+/**
+ * Builds every combination of per-field keys for a compound index.
+ */
+function combineKeys(keysPerField: IndexableType[][]): IndexableType[] {
+    const combinations = keysPerField.reduce<IndexableType[][]>(
+        (partials, keys) =>
+            partials.flatMap((partial) => keys.map((key) => [...partial, key])),
+        [[]]
+    );
+    return combinations as IndexableType[];
+}
+
+/**
+ * Picks the index that answers the most filter params.
+ *
+ * An index qualifies when every one of its fields has a filter value that
+ * can be looked up. Ties go to the index declared first.
+ *
+ * @param indexes - The resource's index definitions
+ * @param params - The list filter params
+ * @returns The lookup to run, or undefined if no index applies
+ *
+ * @example
+ * ```ts
+ * findIndexLookup(["status", ["spaceId", "status"]], { spaceId: "s1", status: "open" })
+ * // => { index: "[spaceId+status]", keys: [["s1", "open"]], fields: ["spaceId", "status"] }
+ * ```
+ */
+export function findIndexLookup(
+    indexes: IndexDefinition[] | undefined,
+    params: ListParams | undefined
+): IndexLookup | undefined {
+    if (!indexes || !params) {
+        return undefined;
+    }
+
+    let best: IndexLookup | undefined;
+    for (const definition of indexes) {
+        const resolved = resolveIndex(definition);
+        const keysPerField = resolved.fields.map((field) =>
+            toIndexKeys(params[field])
+        );
+        if (keysPerField.some((keys) => keys === undefined)) {
+            continue;
+        }
+        if (best && best.fields.length >= resolved.fields.length) {
+            continue;
+        }
+
+        const fieldKeys = keysPerField as IndexableType[][];
+        best = {
+            index: getIndexName(resolved),
+            keys:
+                resolved.fields.length > 1
+                    ? combineKeys(fieldKeys)
+                    : fieldKeys[0],
+            fields: resolved.fields,
+        };
+    }
+    return best;
+}
+
+/**
+ * Reads the rows of a table matching the filter params.
+ * Uses the best matching secondary index, if any, and filters the rest in memory.
+ *
+ * @param table - The resource's Dexie table
+ * @param indexes - The resource's index definitions
+ * @param params - The list filter params
+ * @returns The matching rows
+ */
+export async function readMatchingRows<T, ID>(
+    table: Table<T, ID>,
+    indexes: IndexDefinition[] | undefined,
+    params: ListParams | undefined
+): Promise<T[]> {
+    const lookup = findIndexLookup(indexes, params);
+    if (!lookup) {
+        return filterEntities(await table.toArray(), params);
+    }
+
+    const rows = await table
+        .where(lookup.index)
+        .anyOf(lookup.keys)
+        .distinct()
+        .toArray();
+    const remaining = { ...params };
+    lookup.fields.forEach((field) => delete remaining[field]);
+    return filterEntities(rows, remaining);
+}
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for outbox.ts
+ *
+ * Tests recording, replay order and status transitions of queued mutations.
+ */
+
+import Dexie, { type Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ApiError, NetworkError, TimeoutError } from "../api";
+import {
+    isNetworkError,
+    Outbox,
+    OUTBOX_SCHEMA,
+    OUTBOX_TABLE,
+    type OutboxEntry,
+} from "./outbox";
+
+describe("Outbox", () => {
+    let db: Dexie;
+    let table: Table<OutboxEntry, number>;
+    let outbox: Outbox;
+
+    beforeEach(async () => {
+        db = new Dexie(`OutboxTestDB-${Math.random()}`);
+        db.version(1).stores({ [OUTBOX_TABLE]: OUTBOX_SCHEMA });
+        await db.open();
+        table = db.table(OUTBOX_TABLE);
+        outbox = new Outbox(() => table);
+    });
+
+    afterEach(async () => {
+        outbox.stop();
+        await db.delete();
+    });
+
+    describe("isNetworkError", () => {
+        it("should distinguish unreachable servers from rejections", () => {
+            expect(isNetworkError(new NetworkError(new TypeError("x")))).toBe(
+                true
+            );
+            expect(isNetworkError(new TimeoutError(100))).toBe(true);
+            expect(isNetworkError(new ApiError("x", 500, "Error"))).toBe(false);
+            expect(
+                isNetworkError(new DOMException("Aborted", "AbortError"))
+            ).toBe(false);
+        });
+
+        it("should only count other errors while offline", () => {
+            const error = new TypeError("x is undefined");
+            expect(isNetworkError(error)).toBe(false);
+
+            vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+            expect(isNetworkError(error)).toBe(true);
+            vi.restoreAllMocks();
+        });
+    });
+
+    it("should record entries as pending", async () => {
+        await outbox.enqueue({ resource: "notes", op: "remove", id: "n1" });
+
+        const [entry] = await outbox.entries();
+        expect(entry).toMatchObject({
+            resource: "notes",
+            op: "remove",
+            id: "n1",
+            status: "pending",
+            attempts: 0,
+        });
+        expect(await outbox.hasPending("notes")).toBe(true);
+        expect(await outbox.hasPending("tags")).toBe(false);
+    });
+
+    it("should replay entries in order and remove them", async () => {
+        const replayed: string[] = [];
+        const onSettled = vi.fn();
+        outbox = new Outbox(() => table, { onSettled });
+        outbox.registerHandler("notes", async (entry) => {
+            replayed.push(`${entry.op}:${entry.id}`);
+        });
+
+        await outbox.enqueue({ resource: "notes", op: "create", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "remove", id: "n1" });
+        await outbox.replay();
+
+        expect(replayed).toEqual(["create:n1", "update:n1", "remove:n1"]);
+        expect(await outbox.entries()).toEqual([]);
+        expect(onSettled).toHaveBeenCalledTimes(3);
+    });
+
+    it("should stop at a network failure and keep the entry pending", async () => {
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(
+                new NetworkError(new TypeError("fetch failed"))
+            );
+        outbox.registerHandler("notes", handler);
+
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n2" });
+        await outbox.replay();
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        const entries = await outbox.entries();
+        expect(entries).toHaveLength(2);
+        expect(entries[0]).toMatchObject({
+            status: "pending",
+            attempts: 1,
+            error: "API request failed without a response: fetch failed",
+        });
+
+        await outbox.replay();
+        expect(await outbox.entries()).toEqual([]);
+    });
+
+    it("should mark rejected entries and continue", async () => {
+        outbox.registerHandler("notes", async (entry) => {
+            if (entry.id === "n1") {
+                throw new ApiError("Conflict", 409, "Conflict");
+            }
+            if (entry.id === "n2") {
+                throw new ApiError("Bad Request", 400, "Bad Request");
+            }
+        });
+
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n2" });
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n3" });
+        await outbox.replay();
+
+        const entries = await outbox.entries();
+        expect(entries.map((entry) => [entry.id, entry.status])).toEqual([
+            ["n1", "conflicted"],
+            ["n2", "failed"],
+        ]);
+        expect(await outbox.entries({ status: "conflicted" })).toHaveLength(1);
+    });
+
+    it("should mark entries failing for other reasons and continue", async () => {
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(new TypeError("x is undefined"))
+            .mockResolvedValue(undefined);
+        outbox.registerHandler("notes", handler);
+
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n2" });
+        await outbox.replay();
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(await outbox.entries()).toMatchObject([
+            { id: "n1", status: "failed", error: "x is undefined" },
+        ]);
+    });
+
+    it("should retry and discard rejected entries", async () => {
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(new ApiError("Conflict", 409, "Conflict"))
+            .mockResolvedValue(undefined);
+        outbox.registerHandler("notes", handler);
+
+        await outbox.enqueue({ resource: "notes", op: "update", id: "n1" });
+        await outbox.enqueue({ resource: "tags", op: "remove", id: "t1" });
+        await outbox.replay();
+
+        const [conflicted, orphan] = await outbox.entries();
+        await outbox.retry(conflicted.seq!);
+        expect(handler).toHaveBeenCalledTimes(2);
+
+        // No handler for "tags" yet, so it stays pending until discarded
+        expect(await outbox.entries()).toEqual([orphan]);
+        await outbox.discard(orphan.seq!);
+        expect(await outbox.entries()).toEqual([]);
+    });
+
+    it("should replay when the browser comes back online", async () => {
+        const handler = vi.fn().mockResolvedValue(undefined);
+        outbox.registerHandler("notes", handler);
+        outbox.start();
+        await vi.waitFor(() => expect(outbox.entries()).resolves.toEqual([]));
+
+        await outbox.enqueue({ resource: "notes", op: "remove", id: "n1" });
+        window.dispatchEvent(new Event("online"));
+
+        await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    });
+
+    it("should replay new entries and back off after failures while online", async () => {
+        outbox = new Outbox(() => table, {
+            retry: { baseDelayMs: 20, jitter: false },
+        });
+        // The server is briefly unreachable, but the browser stays online
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(
+                new NetworkError(new TypeError("fetch failed"))
+            )
+            .mockResolvedValue(undefined);
+        outbox.registerHandler("notes", handler);
+        outbox.start();
+
+        await outbox.enqueue({ resource: "notes", op: "remove", id: "n1" });
+        await outbox.enqueue({ resource: "notes", op: "remove", id: "n2" });
+
+        await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(3));
+        await vi.waitFor(() => expect(outbox.entries()).resolves.toEqual([]));
+        expect(handler.mock.calls.map(([entry]) => entry.id)).toEqual([
+            "n1",
+            "n1",
+            "n2",
+        ]);
+    });
+});
@@ -0,0 +1,404 @@
+/**
+ * Durable outbox for mutations made while offline.
+ *
+ * This module records create/update/remove calls that couldn't reach the server
+ * in an IndexedDB table and replays them in order once connectivity returns.
+ */
+
+import type { Table } from "dexie";
+
+import { ApiError, NetworkError, TimeoutError } from "../api";
+import {
+    getRetryDelay,
+    isAbortError,
+    resolveRetryPolicy,
+    type RetryPolicy,
+} from "./retry";
+
+/** Name of the Dexie table that stores outbox entries */
+export const OUTBOX_TABLE = "_outbox";
+
+/** Dexie store spec of the outbox table (auto-incremented `seq` keeps replay order) */
+export const OUTBOX_SCHEMA = "++seq, resource, status";
+
+/**
+ * Replay status of an outbox entry.
+ *
+ * - `pending`: waiting to be sent (or retried after a network failure)
+ * - `failed`: the server rejected the mutation
+ * - `conflicted`: the server reported a conflict (HTTP 409 or 412)
+ */
+export type OutboxStatus = "pending" | "failed" | "conflicted";
+
+/**
+ * Mutation recorded in the outbox.
+ */
+export interface OutboxEntry {
+    /** Auto-incremented sequence number (replay order) */
+    seq?: number;
+    /** Name of the resource the mutation targets */
+    resource: string;
+    /** The operation to replay */
+    op: "create" | "update" | "remove";
+    /** Target ID (update/remove), or the local ID of a created item if it has one */
+    id?: unknown;
+    /** Request payload (create/update) */
+    data?: unknown;
+    /** Replay status */
+    status: OutboxStatus;
+    /** Number of replay attempts so far */
+    attempts: number;
+    /** Time the mutation was recorded (ms since epoch) */
+    createdAt: number;
+    /** Message of the last replay error */
+    error?: string;
+}
+
+/**
+ * Sends a recorded mutation to the server and applies the server's result locally.
+ */
+export type OutboxHandler = (entry: OutboxEntry) => Promise<void>;
+
+/**
+ * Options for creating an Outbox.
+ */
+export interface OutboxOptions {
+    /** Called after an entry was replayed successfully or was rejected by the server */
+    onSettled?: (entry: OutboxEntry) => void;
+    /**
+     * Backoff of the replays scheduled after a network failure, once started
+     * (default: 1s doubling up to 60s, with jitter). Only the delay settings are used.
+     */
+    retry?: RetryPolicy;
+}
+
+/** Default backoff of replays after a network failure */
+const DEFAULT_REPLAY_BACKOFF: RetryPolicy = {
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+};
+
+/**
+ * Checks whether an error means the server couldn't be reached
+ * (as opposed to the server rejecting the request, or app code failing).
+ *
+ * @param error - The error thrown by a request
+ * @returns True for transport failures, timeouts and any non-HTTP error
+ *   while the browser is offline
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (isAbortError(error)) {
+        return false;
+    }
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
+        return true;
+    }
+    return !(error instanceof ApiError) && !isOnline();
+}
+
+/**
+ * Checks whether the browser reports being online (true outside browsers).
+ */
+function isOnline(): boolean {
+    return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/**
+ * Persists mutations that couldn't be sent and replays them in order.
+ *
+ * Resources opt in with `offline: true`; their operations record mutations here
+ * and register a handler that replays them. Entries stay `pending` until the
+ * server accepts them; rejected entries are kept as `failed` or `conflicted`
+ * so the app can show them, retry them or discard them.
+ *
+ * @example
+ * ```ts
+ * // Show unsent changes
+ * const entries = await query.outbox.entries({ status: "pending" });
+ *
+ * // Retry a conflicted entry after resolving it
+ * await query.outbox.retry(entry.seq!);
+ * ```
+ */
+export class Outbox {
+    private getTable: () => Table<OutboxEntry, number> | undefined;
+    private options: OutboxOptions;
+    private handlers = new Map<string, OutboxHandler>();
+    private replaying: Promise<void> | null = null;
+    private replayRequested = false;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private onlineListener: (() => void) | null = null;
+
+    /**
+     * @param getTable - Returns the outbox table (undefined until the database is initialized)
+     * @param options - Optional callbacks
+     */
+    constructor(
+        getTable: () => Table<OutboxEntry, number> | undefined,
+        options: OutboxOptions = {}
+    ) {
+        this.getTable = getTable;
+        this.options = options;
+    }
+
+    /**
+     * Registers the replay handler for a resource.
+     *
+     * @param resource - The resource name
+     * @param handler - Sends an entry of this resource to the server
+     */
+    registerHandler(resource: string, handler: OutboxHandler): void {
+        this.handlers.set(resource, handler);
+    }
+
+    /**
+     * Records a mutation as pending.
+     * Once started, the outbox replays right away if the browser is online.
+     *
+     * @param entry - The mutation to record
+     * @returns The entry's sequence number
+     */
+    async enqueue(
+        entry: Pick<OutboxEntry, "resource" | "op" | "id" | "data">
+    ): Promise<number> {
+        const seq = await this.table().add({
+            ...entry,
+            status: "pending",
+            attempts: 0,
+            createdAt: Date.now(),
+        });
+
+        if (this.onlineListener && isOnline()) {
+            this.requestReplay();
+        }
+        return seq;
+    }
+
+    /**
+     * Lists outbox entries in replay order.
+     *
+     * @param filter - Optional resource and/or status to match
+     * @returns Matching entries
+     */
+    async entries(
+        filter: { resource?: string; status?: OutboxStatus } = {}
+    ): Promise<OutboxEntry[]> {
+        const table = this.getTable();
+        if (!table) {
+            return [];
+        }
+
+        const all = await table.orderBy("seq").toArray();
+        return all.filter(
+            (entry) =>
+                (filter.resource === undefined ||
+                    entry.resource === filter.resource) &&
+                (filter.status === undefined || entry.status === filter.status)
+        );
+    }
+
+    /**
+     * Checks whether a resource has mutations waiting to be sent.
+     * New mutations of such a resource are queued behind them to keep their order.
+     *
+     * @param resource - The resource name
+     */
+    async hasPending(resource: string): Promise<boolean> {
+        const table = this.getTable();
+        if (!table) {
+            return false;
+        }
+
+        const count = await table
+            .where("resource")
+            .equals(resource)
+            .filter((entry) => entry.status === "pending")
+            .count();
+        return count > 0;
+    }
+
+    /**
+     * Replays pending entries in order.
+     *
+     * Replay stops at the first network failure (the entry stays pending);
+     * once started, the outbox then replays again after a backoff delay.
+     * Entries the server rejects are marked `conflicted` (409/412) or `failed`,
+     * and replay continues with the next entry. Concurrent calls share one run.
+     *
+     * @returns Promise that resolves when the run is complete
+     */
+    replay(): Promise<void> {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (!this.replaying) {
+            this.replaying = this.replayPending().finally(() => {
+                this.replaying = null;
+                // Entries were recorded during the run; send them too
+                if (this.replayRequested) {
+                    this.replayRequested = false;
+                    void this.replay();
+                }
+            });
+        }
+        return this.replaying;
+    }
+
+    /**
+     * Marks a failed or conflicted entry as pending again and replays the outbox.
+     *
+     * @param seq - The entry's sequence number
+     */
+    async retry(seq: number): Promise<void> {
+        await this.table().update(seq, { status: "pending" });
+        await this.replay();
+    }
+
+    /**
+     * Drops an entry without sending it.
+     * Local changes already applied to the resource table are kept until the next fetch.
+     *
+     * @param seq - The entry's sequence number
+     */
+    async discard(seq: number): Promise<void> {
+        await this.table().delete(seq);
+    }
+
+    /**
+     * Replays the outbox now, whenever the browser comes back online or an
+     * entry is recorded, and with backoff after network failures.
+     * Does nothing outside browser environments.
+     */
+    start(): void {
+        if (typeof window === "undefined" || this.onlineListener) {
+            return;
+        }
+
+        this.onlineListener = () => {
+            void this.replay();
+        };
+        window.addEventListener("online", this.onlineListener);
+
+        if (isOnline()) {
+            void this.replay();
+        }
+    }
+
+    /**
+     * Stops replaying automatically (on `online`, on enqueue and after failures).
+     */
+    stop(): void {
+        if (this.onlineListener) {
+            window.removeEventListener("online", this.onlineListener);
+            this.onlineListener = null;
+        }
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.replayRequested = false;
+    }
+
+    /**
+     * Gets the outbox table, throwing if the database isn't initialized.
+     */
+    private table(): Table<OutboxEntry, number> {
+        const table = this.getTable();
+        if (!table) {
+            throw new Error(
+                `The outbox is not initialized. ` +
+                    `You must call query.initialize() before using offline resources.`
+            );
+        }
+        return table;
+    }
+
+    /**
+     * Replays now, or after the current run if one is in progress
+     * (it may have read the pending entries already).
+     */
+    private requestReplay(): void {
+        if (this.replaying) {
+            this.replayRequested = true;
+        } else {
+            void this.replay();
+        }
+    }
+
+    /**
+     * Schedules a replay after a network failure, backing off with the
+     * entry's attempts. Only once started; replays on `online` in any case.
+     */
+    private scheduleRetry(attempts: number): void {
+        if (!this.onlineListener || this.retryTimer) {
+            return;
+        }
+
+        const policy = resolveRetryPolicy({
+            ...DEFAULT_REPLAY_BACKOFF,
+            ...this.options.retry,
+        });
+        const delay = getRetryDelay(undefined, attempts, policy);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            void this.replay();
+        }, delay);
+    }
+
+    /**
+     * Sends pending entries one by one, in sequence order.
+     */
+    private async replayPending(): Promise<void> {
+        const table = this.getTable();
+        if (!table) {
+            return;
+        }
+
+        const pending = await this.entries({ status: "pending" });
+        for (const entry of pending) {
+            const handler = this.handlers.get(entry.resource);
+            if (!handler) {
+                // Resource not created in this session yet; leave it for a later run
+                continue;
+            }
+
+            try {
+                await handler(entry);
+                await table.delete(entry.seq!);
+                this.options.onSettled?.(entry);
+            } catch (error) {
+                const attempts = entry.attempts + 1;
+                const message =
+                    error instanceof Error ? error.message : String(error);
+
+                if (isNetworkError(error)) {
+                    // Still unreachable; keep the order and try again later
+                    await table.update(entry.seq!, {
+                        attempts,
+                        error: message,
+                    });
+                    this.scheduleRetry(attempts);
+                    return;
+                }
+
+                const status: OutboxStatus =
+                    error instanceof ApiError &&
+                    (error.status === 409 || error.status === 412)
+                        ? "conflicted"
+                        : "failed";
+                await table.update(entry.seq!, {
+                    status,
+                    attempts,
+                    error: message,
+                });
+                this.options.onSettled?.({
+                    ...entry,
+                    status,
+                    attempts,
+                    error: message,
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for pagination.ts
+ *
+ * Tests page param serialization and next-page derivation.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    buildPageParams,
+    getInitialPageParam,
+    getNextPageParam,
+    isCompleteList,
+} from "./pagination";
+
+describe("pagination", () => {
+    describe("getInitialPageParam", () => {
+        it("should start offset pagination at page 1", () => {
+            expect(getInitialPageParam({ type: "offset" })).toBe(1);
+        });
+
+        it("should omit the cursor for the first cursor page", () => {
+            expect(getInitialPageParam()).toBeUndefined();
+        });
+    });
+
+    describe("buildPageParams", () => {
+        it("should add the cursor and page size", () => {
+            expect(
+                buildPageParams({ status: "open" }, "abc", {
+                    type: "cursor",
+                    pageSize: 20,
+                })
+            ).toEqual({ status: "open", cursor: "abc", limit: 20 });
+        });
+
+        it("should honor custom param names", () => {
+            expect(
+                buildPageParams(undefined, 3, {
+                    type: "offset",
+                    param: "p",
+                    pageSize: 50,
+                    sizeParam: "per_page",
+                })
+            ).toEqual({ p: 3, per_page: 50 });
+        });
+    });
+
+    describe("getNextPageParam", () => {
+        it("should use nextCursor for cursor pagination", () => {
+            expect(getNextPageParam([1], { nextCursor: "n" }, "c")).toBe("n");
+            expect(
+                getNextPageParam([1], { nextCursor: null }, "c")
+            ).toBeUndefined();
+        });
+
+        it("should stop offset pagination on a short page", () => {
+            const config = { type: "offset", pageSize: 2 } as const;
+
+            expect(getNextPageParam([1, 2], {}, 1, config)).toBe(2);
+            expect(getNextPageParam([1], {}, 2, config)).toBeUndefined();
+        });
+
+        it("should stop offset pagination once total is reached", () => {
+            const config = { type: "offset", pageSize: 2 } as const;
+
+            expect(
+                getNextPageParam([1, 2], { page: 2, total: 4 }, 2, config)
+            ).toBeUndefined();
+        });
+
+        it("should stop offset pagination on an empty page", () => {
+            expect(
+                getNextPageParam([], {}, 4, { type: "offset" })
+            ).toBeUndefined();
+        });
+    });
+
+    describe("isCompleteList", () => {
+        it("should treat responses without pagination metadata as complete", () => {
+            expect(isCompleteList([1, 2])).toBe(true);
+            expect(isCompleteList([1, 2], { nextCursor: null })).toBe(true);
+            expect(isCompleteList([1, 2], { total: 2 })).toBe(true);
+        });
+
+        it("should detect responses with more pages", () => {
+            expect(isCompleteList([1, 2], { nextCursor: "n" })).toBe(false);
+            expect(isCompleteList([1, 2], { total: 10 })).toBe(false);
+        });
+
+        it("should treat paged responses without metadata as partial", () => {
+            expect(isCompleteList([1, 2], {}, { limit: 2 })).toBe(false);
+            expect(isCompleteList([1, 2], {}, { sort: "-createdAt" })).toBe(
+                true
+            );
+            expect(isCompleteList([1, 2], {}, {}, { type: "offset" })).toBe(
+                false
+            );
+        });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Pagination helpers for paginated list endpoints.
+ *
+ * This module translates between page params (cursors or page numbers) and
+ * query-string params, and derives the next page param from page metadata.
+ */
+
+import type {
+    ListParams,
+    PageMeta,
+    PageParam,
+    PaginationConfig,
+} from "../types";
+
+const DEFAULT_PAGINATION: PaginationConfig = { type: "cursor" };
+
+/**
+ * Resolves the page param sent for the first page.
+ *
+ * @param config - Optional pagination configuration (defaults to cursor pagination)
+ * @returns `1` for offset pagination, undefined for cursor pagination
+ */
+export function getInitialPageParam(
+    config: PaginationConfig = DEFAULT_PAGINATION
+): PageParam | undefined {
+    return config.type === "offset" ? 1 : undefined;
+}
+
+/**
+ * Merges the page param and page size into list params.
+ *
+ * @param params - The list filter params
+ * @param pageParam - Cursor or page number (omitted from the query when undefined)
+ * @param config - Optional pagination configuration
+ * @returns Params for the page request
+ *
+ * @example
+ * ```ts
+ * buildPageParams({ status: "open" }, "abc", { type: "cursor", pageSize: 20 })
+ * // => { status: "open", cursor: "abc", limit: 20 }
+ *
+ * buildPageParams({ status: "open" }, 2, { type: "offset" })
+ * // => { status: "open", page: 2 }
+ * ```
+ */
+export function buildPageParams(
+    params: ListParams | undefined,
+    pageParam: PageParam | undefined,
+    config: PaginationConfig = DEFAULT_PAGINATION
+): ListParams {
+    const {
+        type,
+        param = type === "offset" ? "page" : "cursor",
+        pageSize,
+        sizeParam = "limit",
+    } = config;
+
+    return {
+        ...params,
+        ...(pageParam !== undefined && { [param]: pageParam }),
+        ...(pageSize !== undefined && { [sizeParam]: pageSize }),
+    };
+}
+
+/** Params that request a single page of a list */
+const PAGING_PARAMS = ["cursor", "page", "limit", "offset"];
+
+/**
+ * Checks whether a list response holds every item matching its query,
+ * i.e., it wasn't requested as a page and the server doesn't report further
+ * pages or a larger total.
+ *
+ * Responses of paginated resources, or requested with paging params, may be
+ * partial without reporting it, so they're never treated as complete.
+ *
+ * @param data - Items in the response
+ * @param meta - Metadata of the response, if any
+ * @param params - Params the list was requested with
+ * @param config - Pagination configuration of the resource, if any
+ * @returns False if the response is (or may be) partial
+ */
+export function isCompleteList<T>(
+    data: T[],
+    meta: PageMeta = {},
+    params?: ListParams,
+    config?: PaginationConfig
+): boolean {
+    const isPaged =
+        config !== undefined ||
+        PAGING_PARAMS.some((param) => params?.[param] !== undefined);
+    if (isPaged || meta.nextCursor) {
+        return false;
+    }
+    return meta.total === undefined || meta.total <= data.length;
+}
+
+/**
+ * Derives the param for the page following the given one.
+ *
+ * Cursor pagination uses `meta.nextCursor`. Offset pagination advances the
+ * page number until a short or empty page is returned, or `meta.total` items
+ * have been served.
+ *
+ * @param data - Items on the current page
+ * @param meta - Metadata of the current page
+ * @param pageParam - Param the current page was requested with
+ * @param config - Optional pagination configuration
+ * @returns The next page param, or undefined on the last page
+ */
+export function getNextPageParam<T>(
+    data: T[],
+    meta: PageMeta,
+    pageParam: PageParam | undefined,
+    config: PaginationConfig = DEFAULT_PAGINATION
+): PageParam | undefined {
+    if (config.type === "cursor") {
+        return meta.nextCursor ?? undefined;
+    }
+
+    if (data.length === 0) {
+        return undefined;
+    }
+
+    const current = meta.page ?? Number(pageParam ?? 1);
+    const { pageSize } = config;
+    if (pageSize !== undefined) {
+        if (data.length < pageSize) {
+            return undefined;
+        }
+        if (meta.total !== undefined && current * pageSize >= meta.total) {
+            return undefined;
+        }
+    }
+
+    return current + 1;
+}
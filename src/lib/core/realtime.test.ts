@@ -0,0 +1,197 @@
+/**
+ * Unit tests for realtime.ts
+ *
+ * Tests event dispatch order and the built-in channels.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+    createEventSourceChannel,
+    createMemoryChannel,
+    createWebSocketChannel,
+    Realtime,
+    type RealtimeEvent,
+} from "./realtime";
+
+const removeNote: RealtimeEvent = { resource: "notes", op: "remove", id: "n1" };
+
+describe("Realtime", () => {
+    let realtime: Realtime;
+
+    beforeEach(() => {
+        realtime = new Realtime();
+        vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        realtime.disconnect();
+        vi.restoreAllMocks();
+    });
+
+    it("should apply events in order, one at a time", async () => {
+        const applied: string[] = [];
+        realtime.registerHandler("notes", async (event) => {
+            await new Promise((resolve) =>
+                setTimeout(resolve, event.op === "create" ? 10 : 0)
+            );
+            applied.push(event.op);
+        });
+
+        void realtime.dispatch({
+            resource: "notes",
+            op: "create",
+            entity: { id: "n1" },
+        });
+        await realtime.dispatch(removeNote);
+
+        expect(applied).toEqual(["create", "remove"]);
+    });
+
+    it("should ignore events of unknown resources", async () => {
+        const handler = vi.fn().mockResolvedValue(undefined);
+        realtime.registerHandler("tags", handler);
+
+        await realtime.dispatch(removeNote);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should log failures and keep applying events", async () => {
+        const handler = vi
+            .fn()
+            .mockRejectedValueOnce(new Error("quota exceeded"))
+            .mockResolvedValue(undefined);
+        realtime.registerHandler("notes", handler);
+
+        void realtime.dispatch(removeNote);
+        await realtime.dispatch(removeNote);
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(console.error).toHaveBeenCalledWith(
+            "[Query] Failed to apply notes remove event: ",
+            expect.any(Error)
+        );
+    });
+
+    it("should stop applying events of disconnected channels", async () => {
+        const handler = vi.fn().mockResolvedValue(undefined);
+        realtime.registerHandler("notes", handler);
+        const channel = createMemoryChannel();
+
+        const disconnect = realtime.connect(channel);
+        channel.emit(removeNote);
+        await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+
+        disconnect();
+        channel.emit(removeNote);
+        await realtime.dispatch({ resource: "other", op: "remove", id: 1 });
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    describe("createEventSourceChannel", () => {
+        class FakeEventSource {
+            static instances: FakeEventSource[] = [];
+            listeners = new Map<string, (message: MessageEvent) => void>();
+            onerror: ((error: unknown) => void) | null = null;
+            close = vi.fn();
+
+            constructor(
+                public url: string,
+                public init: { withCredentials: boolean }
+            ) {
+                FakeEventSource.instances.push(this);
+            }
+
+            addEventListener(
+                name: string,
+                listener: (message: MessageEvent) => void
+            ) {
+                this.listeners.set(name, listener);
+            }
+
+            removeEventListener(name: string) {
+                this.listeners.delete(name);
+            }
+
+            send(name: string, data: string) {
+                this.listeners.get(name)?.({ data } as MessageEvent);
+            }
+        }
+
+        beforeEach(() => {
+            FakeEventSource.instances = [];
+            vi.stubGlobal("EventSource", FakeEventSource);
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it("should parse named events and report invalid ones", () => {
+            const onEvent = vi.fn();
+            const onError = vi.fn();
+            const unsubscribe = createEventSourceChannel("/v1/events", {
+                eventName: "change",
+                withCredentials: true,
+            }).subscribe(onEvent, onError);
+
+            const [source] = FakeEventSource.instances;
+            expect(source.url).toBe("/v1/events");
+            expect(source.init).toEqual({ withCredentials: true });
+
+            source.send("change", JSON.stringify(removeNote));
+            source.send("change", JSON.stringify({ op: "remove" }));
+            expect(onEvent).toHaveBeenCalledWith(removeNote);
+            expect(onError).toHaveBeenCalledWith(expect.any(Error));
+
+            unsubscribe();
+            expect(source.close).toHaveBeenCalled();
+        });
+    });
+
+    describe("createWebSocketChannel", () => {
+        class FakeWebSocket {
+            static instances: FakeWebSocket[] = [];
+            onmessage: ((message: { data: string }) => void) | null = null;
+            onerror: ((error: unknown) => void) | null = null;
+            onclose: (() => void) | null = null;
+            close = vi.fn(() => this.onclose?.());
+
+            constructor(public url: string) {
+                FakeWebSocket.instances.push(this);
+            }
+        }
+
+        beforeEach(() => {
+            FakeWebSocket.instances = [];
+            vi.stubGlobal("WebSocket", FakeWebSocket);
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        });
+
+        it("should parse messages and reconnect until unsubscribed", () => {
+            const onEvent = vi.fn();
+            const unsubscribe = createWebSocketChannel("wss://x/events", {
+                reconnectDelayMs: 500,
+            }).subscribe(onEvent, vi.fn());
+
+            FakeWebSocket.instances[0].onmessage?.({
+                data: JSON.stringify(removeNote),
+            });
+            expect(onEvent).toHaveBeenCalledWith(removeNote);
+
+            // Dropped by the server
+            FakeWebSocket.instances[0].onclose?.();
+            vi.advanceTimersByTime(500);
+            expect(FakeWebSocket.instances).toHaveLength(2);
+
+            unsubscribe();
+            vi.advanceTimersByTime(500);
+            expect(FakeWebSocket.instances).toHaveLength(2);
+        });
+    });
+});
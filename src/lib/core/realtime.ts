@@ -0,0 +1,321 @@
+/**
+ * Real-time change events pushed by the server.
+ *
+ * This module defines the event format, pluggable channels that deliver
+ * events (Server-Sent Events, WebSocket, or in-memory for tests), and the
+ * dispatcher that hands each event to the resource it targets.
+ */
+
+/**
+ * Change of a resource's item pushed by the server.
+ *
+ * - `create` / `update`: `entity` is the item as stored on the server
+ * - `remove`: `id` is the ID of the deleted item
+ */
+export type RealtimeEvent =
+    | { resource: string; op: "create" | "update"; entity: unknown }
+    | { resource: string; op: "remove"; id: unknown };
+
+/**
+ * Applies an event to a resource's table and query cache.
+ */
+export type RealtimeHandler = (event: RealtimeEvent) => Promise<void>;
+
+/**
+ * Source of real-time events.
+ *
+ * Implement this interface to receive events over another transport.
+ */
+export interface RealtimeChannel {
+    /**
+     * Starts delivering events.
+     *
+     * @param onEvent - Called with each received event
+     * @param onError - Called when the connection fails or a message can't be read
+     * @returns Function that stops delivering events and closes the connection
+     */
+    subscribe(
+        onEvent: (event: RealtimeEvent) => void,
+        onError: (error: unknown) => void
+    ): () => void;
+}
+
+/**
+ * In-memory channel whose events are emitted by hand.
+ */
+export interface MemoryChannel extends RealtimeChannel {
+    /** Delivers an event to every subscriber */
+    emit(event: RealtimeEvent): void;
+}
+
+/**
+ * Options for the Server-Sent Events channel.
+ */
+export interface EventSourceChannelOptions {
+    /** Name of the SSE event carrying changes (default: "message") */
+    eventName?: string;
+    /** Send cookies with cross-origin requests (default: false) */
+    withCredentials?: boolean;
+}
+
+/**
+ * Options for the WebSocket channel.
+ */
+export interface WebSocketChannelOptions {
+    /** WebSocket sub-protocols */
+    protocols?: string | string[];
+    /** Delay before reconnecting after the connection closes, in ms (default: 1000) */
+    reconnectDelayMs?: number;
+}
+
+/**
+ * Checks whether a value has the shape of a RealtimeEvent.
+ */
+function isRealtimeEvent(value: unknown): value is RealtimeEvent {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+
+    const event = value as Record<string, unknown>;
+    if (typeof event.resource !== "string") {
+        return false;
+    }
+    if (event.op === "create" || event.op === "update") {
+        return typeof event.entity === "object" && event.entity !== null;
+    }
+    return event.op === "remove" && event.id !== undefined;
+}
+
+/**
+ * Parses a JSON message into an event.
+ *
+ * @throws {Error} If the message isn't a valid event
+ */
+function parseEvent(data: unknown): RealtimeEvent {
+    const event = JSON.parse(String(data));
+    if (!isRealtimeEvent(event)) {
+        throw new Error(`Invalid realtime event: ${String(data)}`);
+    }
+    return event;
+}
+
+/**
+ * Creates a channel whose events are emitted by hand (e.g., in tests or from
+ * a transport the app already manages).
+ *
+ * @returns The channel, with an `emit` method
+ *
+ * @example
+ * ```ts
+ * const channel = createMemoryChannel();
+ * query.realtime.connect(channel);
+ *
+ * channel.emit({ resource: "notes", op: "remove", id: "n1" });
+ * ```
+ */
+export function createMemoryChannel(): MemoryChannel {
+    const listeners = new Set<(event: RealtimeEvent) => void>();
+
+    return {
+        subscribe(onEvent) {
+            listeners.add(onEvent);
+            return () => {
+                listeners.delete(onEvent);
+            };
+        },
+        emit(event) {
+            listeners.forEach((listener) => listener(event));
+        },
+    };
+}
+
+/**
+ * Creates a channel that receives JSON events over Server-Sent Events.
+ * The browser reconnects automatically after network failures.
+ *
+ * @param url - URL of the event stream
+ * @param options - Optional event name and credentials mode
+ * @returns The channel
+ *
+ * @example
+ * ```ts
+ * query.realtime.connect(createEventSourceChannel("/v1/events"));
+ * ```
+ */
+export function createEventSourceChannel(
+    url: string,
+    options: EventSourceChannelOptions = {}
+): RealtimeChannel {
+    const { eventName = "message", withCredentials = false } = options;
+
+    return {
+        subscribe(onEvent, onError) {
+            const source = new EventSource(url, { withCredentials });
+            const listener = (message: MessageEvent) => {
+                try {
+                    onEvent(parseEvent(message.data));
+                } catch (error) {
+                    onError(error);
+                }
+            };
+
+            source.addEventListener(eventName, listener);
+            source.onerror = (error) => onError(error);
+
+            return () => {
+                source.removeEventListener(eventName, listener);
+                source.close();
+            };
+        },
+    };
+}
+
+/**
+ * Creates a channel that receives JSON events over a WebSocket.
+ * Reconnects after the connection closes until the subscription is stopped.
+ *
+ * @param url - WebSocket URL (ws:// or wss://)
+ * @param options - Optional sub-protocols and reconnect delay
+ * @returns The channel
+ *
+ * @example
+ * ```ts
+ * query.realtime.connect(createWebSocketChannel("wss://api.example.com/events"));
+ * ```
+ */
+export function createWebSocketChannel(
+    url: string,
+    options: WebSocketChannelOptions = {}
+): RealtimeChannel {
+    const { protocols, reconnectDelayMs = 1000 } = options;
+
+    return {
+        subscribe(onEvent, onError) {
+            let socket: WebSocket | null = null;
+            let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+            let stopped = false;
+
+            const connect = () => {
+                socket = new WebSocket(url, protocols);
+                socket.onmessage = (message) => {
+                    try {
+                        onEvent(parseEvent(message.data));
+                    } catch (error) {
+                        onError(error);
+                    }
+                };
+                socket.onerror = (error) => onError(error);
+                socket.onclose = () => {
+                    if (!stopped) {
+                        reconnectTimer = setTimeout(connect, reconnectDelayMs);
+                    }
+                };
+            };
+            connect();
+
+            return () => {
+                stopped = true;
+                if (reconnectTimer) {
+                    clearTimeout(reconnectTimer);
+                }
+                socket?.close();
+            };
+        },
+    };
+}
+
+/**
+ * Applies real-time events to the resources they target.
+ *
+ * Every resource registers a handler that writes events into its Dexie table
+ * and updates its query cache. Events are applied one at a time, in the order
+ * they were received; events of resources that don't exist are ignored.
+ *
+ * @example
+ * ```ts
+ * const disconnect = query.realtime.connect(
+ *   createEventSourceChannel("/v1/events")
+ * );
+ *
+ * // Later, e.g., on sign-out
+ * disconnect();
+ * ```
+ */
+export class Realtime {
+    private handlers = new Map<string, RealtimeHandler>();
+    private subscriptions = new Set<() => void>();
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Registers the event handler of a resource.
+     *
+     * @param resource - The resource name
+     * @param handler - Applies an event of this resource
+     */
+    registerHandler(resource: string, handler: RealtimeHandler): void {
+        this.handlers.set(resource, handler);
+    }
+
+    /**
+     * Starts applying the events of a channel.
+     *
+     * @param channel - The event source
+     * @returns Function that stops listening to the channel
+     */
+    connect(channel: RealtimeChannel): () => void {
+        const unsubscribe = channel.subscribe(
+            (event) => {
+                void this.dispatch(event);
+            },
+            (error) => {
+                console.error(`[Query] Realtime channel error: `, error);
+            }
+        );
+        this.subscriptions.add(unsubscribe);
+
+        return () => {
+            if (this.subscriptions.delete(unsubscribe)) {
+                unsubscribe();
+            }
+        };
+    }
+
+    /**
+     * Stops listening to every connected channel.
+     */
+    disconnect(): void {
+        this.subscriptions.forEach((unsubscribe) => unsubscribe());
+        this.subscriptions.clear();
+    }
+
+    /**
+     * Queues an event to be applied after the ones received before it.
+     * Failures are logged and don't stop later events.
+     *
+     * @param event - The event to apply
+     * @returns Promise that resolves once the event has been applied
+     */
+    dispatch(event: RealtimeEvent): Promise<void> {
+        this.queue = this.queue.then(() => this.apply(event));
+        return this.queue;
+    }
+
+    /**
+     * Hands an event to its resource's handler.
+     */
+    private async apply(event: RealtimeEvent): Promise<void> {
+        const handler = this.handlers.get(event.resource);
+        if (!handler) {
+            return;
+        }
+
+        try {
+            await handler(event);
+        } catch (error) {
+            console.error(
+                `[Query] Failed to apply ${event.resource} ${event.op} event: `,
+                error
+            );
+        }
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for response-adapter.ts
+ *
+ * Tests reading items and page metadata from response envelopes.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    bareResponse,
+    createEnvelopeAdapter,
+    dataEnvelope,
+} from "./response-adapter";
+
+describe("response adapters", () => {
+    const items = [{ id: "1" }, { id: "2" }];
+
+    it("should read the data envelope by default", () => {
+        const body = { data: items, meta: { nextCursor: "abc" } };
+
+        expect(dataEnvelope.unwrapItem({ data: items[0] })).toEqual(items[0]);
+        expect(dataEnvelope.unwrapList(body)).toEqual(items);
+        expect(dataEnvelope.extractMeta?.(body)).toEqual({ nextCursor: "abc" });
+        expect(dataEnvelope.extractMeta?.({ data: items })).toBeUndefined();
+    });
+
+    it("should read bare items and lists", () => {
+        expect(bareResponse.unwrapItem(items[0])).toEqual(items[0]);
+        expect(bareResponse.unwrapList(items)).toEqual(items);
+        expect(() => bareResponse.unwrapList({ data: items })).toThrowError(
+            "Expected the response to be a list."
+        );
+    });
+
+    it("should map named fields to items and page metadata", () => {
+        const adapter = createEnvelopeAdapter({
+            list: "results",
+            total: "count",
+            nextCursor: "next",
+        });
+
+        const body = { results: items, count: 12, next: null };
+        expect(adapter.unwrapList(body)).toEqual(items);
+        expect(adapter.extractMeta?.(body)).toEqual({
+            total: 12,
+            nextCursor: null,
+        });
+        expect(adapter.unwrapItem(items[0])).toEqual(items[0]);
+        expect(() => adapter.unwrapList({ items })).toThrowError(
+            'Expected the "results" field of the response to hold a list.'
+        );
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Response envelope parsing for resource endpoints.
+ *
+ * Fetchling's own API contract wraps items in `{ data }` (see
+ * docs/api-requirements.md), but third-party and legacy APIs often return bare
+ * arrays, `{ items }` or `{ results, count }`. A response adapter reads the
+ * items and page metadata out of a resource's response bodies, so those APIs
+ * can be used without a proxy.
+ */
+
+import type { PageMeta } from "../types";
+
+/**
+ * Reads items and page metadata from a resource's response bodies.
+ *
+ * Implement this interface for envelopes `createEnvelopeAdapter` can't describe.
+ */
+export interface ResponseAdapter {
+    /**
+     * Reads the item from a single-item response (getById, create, update).
+     *
+     * @param body - The parsed response body
+     * @returns The item
+     */
+    unwrapItem(body: unknown): unknown;
+    /**
+     * Reads the items from a list response (list, listPage).
+     *
+     * @param body - The parsed response body
+     * @returns The items
+     * @throws {Error} If the body holds no list
+     */
+    unwrapList(body: unknown): unknown[];
+    /**
+     * Reads the pagination metadata from a list response, if any.
+     *
+     * @param body - The parsed response body
+     * @returns The page metadata
+     */
+    extractMeta?(body: unknown): PageMeta | undefined;
+}
+
+/**
+ * Field names of a response envelope.
+ */
+export interface EnvelopeFields {
+    /** Field holding the item of single-item responses (omit if the item is the body) */
+    item?: string;
+    /** Field holding the items of list responses (omit if the list is the body) */
+    list?: string;
+    /** Field holding a `PageMeta` object */
+    meta?: string;
+    /** Field holding the total number of matching items */
+    total?: string;
+    /** Field holding the cursor of the next page */
+    nextCursor?: string;
+    /** Field holding the number of the returned page */
+    page?: string;
+}
+
+/**
+ * Reads a field of a response body (the body itself if no field is given).
+ */
+function readField(body: unknown, field: string | undefined): unknown {
+    if (field === undefined) {
+        return body;
+    }
+    return typeof body === "object" && body !== null
+        ? (body as Record<string, unknown>)[field]
+        : undefined;
+}
+
+/**
+ * Creates an adapter for envelopes that hold items and metadata in named fields.
+ *
+ * @param fields - Names of the envelope's fields
+ * @returns The response adapter
+ *
+ * @example
+ * ```ts
+ * // { items: [...] }
+ * createEnvelopeAdapter({ list: "items" })
+ *
+ * // { results: [...], count: 42 }, and the item itself for single items
+ * createEnvelopeAdapter({ list: "results", total: "count" })
+ * ```
+ */
+export function createEnvelopeAdapter(fields: EnvelopeFields): ResponseAdapter {
+    const { item, list, meta, total, nextCursor, page } = fields;
+
+    return {
+        unwrapItem: (body) => readField(body, item),
+
+        unwrapList: (body) => {
+            const items = readField(body, list);
+            if (!Array.isArray(items)) {
+                throw new Error(
+                    list === undefined
+                        ? "Expected the response to be a list."
+                        : `Expected the "${list}" field of the response to hold a list.`
+                );
+            }
+            return items;
+        },
+
+        extractMeta: (body) => {
+            const pageMeta: Record<string, unknown> =
+                meta === undefined
+                    ? {}
+                    : { ...(readField(body, meta) as PageMeta | undefined) };
+            Object.entries({ total, nextCursor, page }).forEach(
+                ([key, field]) => {
+                    const value =
+                        field === undefined
+                            ? undefined
+                            : readField(body, field);
+                    if (value !== undefined) {
+                        pageMeta[key] = value;
+                    }
+                }
+            );
+            return Object.keys(pageMeta).length > 0
+                ? (pageMeta as PageMeta)
+                : undefined;
+        },
+    };
+}
+
+/**
+ * Default adapter: `{ data: T }` and `{ data: T[], meta?: PageMeta }`.
+ */
+export const dataEnvelope: ResponseAdapter = createEnvelopeAdapter({
+    item: "data",
+    list: "data",
+    meta: "meta",
+});
+
+/**
+ * Adapter for APIs returning the item or the list itself, without an envelope.
+ */
+export const bareResponse: ResponseAdapter = createEnvelopeAdapter({});
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for retry.ts
+ *
+ * Tests retryability decisions, backoff computation and the retry loop.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ApiError, NetworkError, TimeoutError } from "../api";
+import {
+    getRetryDelay,
+    isRetryableError,
+    resolveRetryPolicy,
+    withRetry,
+} from "./retry";
+
+describe("retry", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("isRetryableError", () => {
+        const policy = resolveRetryPolicy({});
+
+        it("should retry listed HTTP statuses only", () => {
+            expect(
+                isRetryableError(new ApiError("x", 503, "Unavailable"), policy)
+            ).toBe(true);
+            expect(
+                isRetryableError(new ApiError("x", 400, "Bad Request"), policy)
+            ).toBe(false);
+        });
+
+        it("should retry transport failures and timeouts as network failures", () => {
+            const networkError = new NetworkError(
+                new TypeError("fetch failed")
+            );
+            expect(isRetryableError(networkError, policy)).toBe(true);
+            expect(isRetryableError(new TimeoutError(100), policy)).toBe(true);
+            expect(
+                isRetryableError(
+                    networkError,
+                    resolveRetryPolicy({ retryOnNetworkError: false })
+                )
+            ).toBe(false);
+        });
+
+        it("should not retry errors thrown by app code", () => {
+            expect(
+                isRetryableError(new TypeError("x is undefined"), policy)
+            ).toBe(false);
+        });
+
+        it("should never retry aborted requests", () => {
+            const abortError = new DOMException("Aborted", "AbortError");
+            expect(isRetryableError(abortError, policy)).toBe(false);
+        });
+    });
+
+    describe("getRetryDelay", () => {
+        it("should back off exponentially up to maxDelayMs", () => {
+            const policy = resolveRetryPolicy({
+                baseDelayMs: 100,
+                maxDelayMs: 350,
+                jitter: false,
+            });
+            const error = new TypeError("fetch failed");
+
+            expect(getRetryDelay(error, 1, policy)).toBe(100);
+            expect(getRetryDelay(error, 2, policy)).toBe(200);
+            expect(getRetryDelay(error, 3, policy)).toBe(350);
+        });
+
+        it("should keep jittered delays within the backoff", () => {
+            const policy = resolveRetryPolicy({ baseDelayMs: 100 });
+            const delay = getRetryDelay(new TypeError("x"), 2, policy);
+
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(200);
+        });
+
+        it("should honor the Retry-After header", () => {
+            const policy = resolveRetryPolicy({ jitter: false });
+            const error = new ApiError(
+                "x",
+                429,
+                "Too Many Requests",
+                undefined,
+                new Headers({ "Retry-After": "2" })
+            );
+
+            expect(getRetryDelay(error, 1, policy)).toBe(2000);
+            expect(
+                getRetryDelay(
+                    error,
+                    1,
+                    resolveRetryPolicy({
+                        jitter: false,
+                        respectRetryAfter: false,
+                    })
+                )
+            ).toBe(300);
+        });
+    });
+
+    describe("withRetry", () => {
+        it("should attempt once without a policy", async () => {
+            const operation = vi.fn().mockRejectedValue(new TypeError("x"));
+
+            await expect(withRetry(operation)).rejects.toThrow("x");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it("should retry until an attempt succeeds", async () => {
+            vi.useFakeTimers();
+            const operation = vi
+                .fn()
+                .mockRejectedValueOnce(new ApiError("x", 503, "Unavailable"))
+                .mockRejectedValueOnce(new NetworkError(new TypeError("x")))
+                .mockResolvedValue("ok");
+
+            const promise = withRetry(operation, {
+                maxAttempts: 3,
+                jitter: false,
+            });
+            await vi.runAllTimersAsync();
+
+            await expect(promise).resolves.toBe("ok");
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        it("should give up after maxAttempts", async () => {
+            vi.useFakeTimers();
+            const error = new ApiError("x", 500, "Server Error");
+            const operation = vi.fn().mockRejectedValue(error);
+
+            const promise = withRetry(operation, { maxAttempts: 2 });
+            const assertion = expect(promise).rejects.toBe(error);
+            await vi.runAllTimersAsync();
+
+            await assertion;
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
+        it("should stop retrying when the signal is aborted", async () => {
+            vi.useFakeTimers();
+            const controller = new AbortController();
+            const operation = vi
+                .fn()
+                .mockRejectedValue(new ApiError("x", 503, "Unavailable"));
+
+            const promise = withRetry(
+                operation,
+                { maxAttempts: 5, baseDelayMs: 1000, jitter: false },
+                controller.signal
+            );
+            const assertion = expect(promise).rejects.toMatchObject({
+                name: "AbortError",
+            });
+            await vi.advanceTimersByTimeAsync(10);
+            controller.abort();
+
+            await assertion;
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not retry non-retryable errors", async () => {
+            const error = new ApiError("x", 404, "Not Found");
+            const operation = vi.fn().mockRejectedValue(error);
+
+            await expect(withRetry(operation, {})).rejects.toBe(error);
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Retry policy evaluation for resource network calls.
+ *
+ * This module decides whether a failed request is worth retrying and how long
+ * to wait before the next attempt (exponential backoff with optional jitter,
+ * honoring the server's `Retry-After` header).
+ */
+
+import { ApiError, NetworkError, TimeoutError } from "../api";
+
+/**
+ * Retry policy for a resource's network calls.
+ *
+ * @example
+ * ```ts
+ * {
+ *   maxAttempts: 4,
+ *   baseDelayMs: 250,
+ *   retryOnStatus: [429, 503],
+ * }
+ * ```
+ */
+export interface RetryPolicy {
+    /** Maximum number of attempts, including the first one (default: 3) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 300) */
+    baseDelayMs?: number;
+    /** Upper bound for any single delay in milliseconds (default: 10000) */
+    maxDelayMs?: number;
+    /** Multiplier applied to the delay after each attempt (default: 2) */
+    factor?: number;
+    /** Randomize delays between 0 and the computed backoff (default: true) */
+    jitter?: boolean;
+    /** HTTP statuses that are retried (default: 408, 425, 429, 500, 502, 503, 504) */
+    retryOnStatus?: number[];
+    /**
+     * Retry requests that failed without a response: transport failures and
+     * timeouts (default: true, except for `create`, as the server may have
+     * created the item before the connection dropped)
+     */
+    retryOnNetworkError?: boolean;
+    /** Wait for the server's `Retry-After` header when present (default: true) */
+    respectRetryAfter?: boolean;
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    maxAttempts: 3,
+    baseDelayMs: 300,
+    maxDelayMs: 10_000,
+    factor: 2,
+    jitter: true,
+    retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+    retryOnNetworkError: true,
+    respectRetryAfter: true,
+};
+
+/**
+ * Fills in defaults for any unspecified policy fields.
+ *
+ * @param policy - Partial retry policy
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy): Required<RetryPolicy> {
+    return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Checks whether an error was caused by an aborted request.
+ */
+export function isAbortError(error: unknown): boolean {
+    // DOMException isn't an Error subclass in every environment
+    return (
+        typeof error === "object" &&
+        error !== null &&
+        (error as { name?: unknown }).name === "AbortError"
+    );
+}
+
+/**
+ * Checks whether a failed request should be retried under the given policy.
+ *
+ * HTTP failures are retried when their status is listed in `retryOnStatus`.
+ * Timeouts and transport failures (NetworkError) count as network failures.
+ * Aborted requests and other errors (e.g., thrown by app code) are never retried.
+ *
+ * @param error - The error thrown by the request
+ * @param policy - Resolved retry policy
+ * @returns True if another attempt should be made
+ */
+export function isRetryableError(
+    error: unknown,
+    policy: Required<RetryPolicy>
+): boolean {
+    if (isAbortError(error)) {
+        return false;
+    }
+    if (error instanceof TimeoutError || error instanceof NetworkError) {
+        return policy.retryOnNetworkError;
+    }
+    if (error instanceof ApiError) {
+        return policy.retryOnStatus.includes(error.status);
+    }
+    return false;
+}
+
+/**
+ * Parses a `Retry-After` header value (delta-seconds or HTTP date).
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ *
+ * @param error - The error thrown by the failed attempt
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - Resolved retry policy
+ * @returns Delay in milliseconds (never more than `maxDelayMs`)
+ *
+ * @example
+ * ```ts
+ * // baseDelayMs: 300, factor: 2, jitter: false
+ * getRetryDelay(err, 1, policy) // => 300
+ * getRetryDelay(err, 2, policy) // => 600
+ * getRetryDelay(err, 3, policy) // => 1200
+ * ```
+ */
+export function getRetryDelay(
+    error: unknown,
+    attempt: number,
+    policy: Required<RetryPolicy>
+): number {
+    if (policy.respectRetryAfter && error instanceof ApiError) {
+        const retryAfter = parseRetryAfter(error.headers?.get("Retry-After"));
+        if (retryAfter !== undefined) {
+            return Math.min(retryAfter, policy.maxDelayMs);
+        }
+    }
+
+    const backoff = Math.min(
+        policy.baseDelayMs * policy.factor ** (attempt - 1),
+        policy.maxDelayMs
+    );
+    return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Waits for the given delay, rejecting early with the signal's reason if aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timerId);
+            reject(signal?.reason);
+        };
+        const timerId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs an async operation, retrying failures according to the policy.
+ *
+ * Without a policy the operation is attempted exactly once.
+ * Aborting the signal stops further attempts and cancels any pending delay.
+ *
+ * @param operation - The operation to run (called once per attempt)
+ * @param policy - Optional retry policy
+ * @param signal - Optional signal that cancels retrying
+ * @returns The result of the first successful attempt
+ * @throws The last error when attempts are exhausted or the error is not retryable
+ *
+ * @example
+ * ```ts
+ * const data = await withRetry(() => apiRequest("/v1/users"), { maxAttempts: 5 });
+ * ```
+ */
+export async function withRetry<R>(
+    operation: () => Promise<R>,
+    policy?: RetryPolicy,
+    signal?: AbortSignal
+): Promise<R> {
+    if (!policy) {
+        return operation();
+    }
+
+    const resolved = resolveRetryPolicy(policy);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (
+                attempt >= resolved.maxAttempts ||
+                !isRetryableError(error, resolved) ||
+                signal?.aborted
+            ) {
+                throw error;
+            }
+
+            await sleep(getRetryDelay(error, attempt, resolved), signal);
+        }
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for sync-cursors.ts
+ *
+ * Tests cursor storage and high-water mark derivation.
+ */
+
+import Dexie, { type Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+    getHighWaterMark,
+    SYNC_SCHEMA,
+    SYNC_TABLE,
+    type SyncCursor,
+    SyncCursors,
+} from "./sync-cursors";
+
+describe("SyncCursors", () => {
+    let db: Dexie;
+    let table: Table<SyncCursor, string>;
+    let cursors: SyncCursors;
+
+    beforeEach(async () => {
+        db = new Dexie(`SyncCursorsTestDB-${Math.random()}`);
+        db.version(1).stores({ [SYNC_TABLE]: SYNC_SCHEMA });
+        await db.open();
+        table = db.table(SYNC_TABLE);
+        cursors = new SyncCursors(() => table);
+    });
+
+    afterEach(async () => {
+        await db.delete();
+    });
+
+    it("should store one cursor per resource", async () => {
+        await cursors.set("notes", "2024-05-01T10:00:00Z");
+        await cursors.set("tags", 42);
+        await cursors.set("notes", "2024-05-02T08:30:00Z");
+
+        expect(await cursors.get("notes")).toBe("2024-05-02T08:30:00Z");
+        expect(await cursors.get("tags")).toBe(42);
+        expect(await cursors.get("spaces")).toBeUndefined();
+    });
+
+    it("should forget reset cursors", async () => {
+        await cursors.set("notes", 7);
+        await cursors.reset("notes");
+
+        expect(await cursors.get("notes")).toBeUndefined();
+    });
+
+    it("should do nothing before the database is initialized", async () => {
+        cursors = new SyncCursors(() => undefined);
+
+        await cursors.set("notes", 7);
+        expect(await cursors.get("notes")).toBeUndefined();
+    });
+
+    describe("getHighWaterMark", () => {
+        it("should pick the highest value of the field", () => {
+            expect(
+                getHighWaterMark(
+                    [
+                        { updatedAt: "2024-05-01T10:00:00Z" },
+                        { updatedAt: "2024-05-02T08:30:00Z" },
+                        { updatedAt: "2024-04-30T23:59:59Z" },
+                    ],
+                    "updatedAt"
+                )
+            ).toBe("2024-05-02T08:30:00Z");
+            expect(
+                getHighWaterMark([{ rev: 3 }, { rev: 12 }, { rev: 9 }], "rev")
+            ).toBe(12);
+        });
+
+        it("should ignore items without a usable value", () => {
+            expect(
+                getHighWaterMark([{ rev: null }, {}], "rev")
+            ).toBeUndefined();
+            expect(getHighWaterMark([], "rev")).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for tab-sync.ts
+ *
+ * Tests message delivery between tabs and the leader election.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type TabMessage, TabSync } from "./tab-sync";
+
+/** BroadcastChannel that delivers to the other instances of the same name */
+class FakeBroadcastChannel {
+    static instances: FakeBroadcastChannel[] = [];
+    onmessage: ((message: { data: unknown }) => void) | null = null;
+
+    constructor(public name: string) {
+        FakeBroadcastChannel.instances.push(this);
+    }
+
+    postMessage(data: unknown) {
+        FakeBroadcastChannel.instances
+            .filter((other) => other !== this && other.name === this.name)
+            .forEach((other) => other.onmessage?.({ data }));
+    }
+
+    close() {
+        FakeBroadcastChannel.instances = FakeBroadcastChannel.instances.filter(
+            (other) => other !== this
+        );
+    }
+}
+
+/** Web Locks API granting each lock to one holder at a time, in request order */
+function createFakeLocks() {
+    const queues = new Map<string, Array<() => void>>();
+
+    return {
+        request(
+            name: string,
+            options: { signal?: AbortSignal; ifAvailable?: boolean },
+            callback: (lock: { name: string } | null) => Promise<void> | void
+        ) {
+            return new Promise<void>((resolve, reject) => {
+                const queue = queues.get(name) ?? [];
+                queues.set(name, queue);
+                if (options.ifAvailable && queue.length > 0) {
+                    void Promise.resolve(callback(null)).then(() => resolve());
+                    return;
+                }
+
+                const grant = () => {
+                    void Promise.resolve(callback({ name })).then(() => {
+                        queue.shift();
+                        queue[0]?.();
+                        resolve();
+                    });
+                };
+                options.signal?.addEventListener("abort", () => {
+                    const index = queue.indexOf(grant);
+                    if (index > 0) {
+                        queue.splice(index, 1);
+                        reject(new DOMException("Aborted", "AbortError"));
+                    }
+                });
+
+                queue.push(grant);
+                if (queue.length === 1) {
+                    grant();
+                }
+            });
+        },
+    };
+}
+
+describe("TabSync", () => {
+    const tabs: TabSync[] = [];
+    const openTab = () => {
+        const tab = new TabSync("fetchling:TestDB");
+        tabs.push(tab);
+        tab.start();
+        return tab;
+    };
+
+    beforeEach(() => {
+        FakeBroadcastChannel.instances = [];
+        vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+        vi.stubGlobal("navigator", { locks: createFakeLocks() });
+    });
+
+    afterEach(() => {
+        tabs.splice(0).forEach((tab) => tab.stop());
+        vi.unstubAllGlobals();
+    });
+
+    it("should deliver messages to the other tabs only", () => {
+        const first = openTab();
+        const second = openTab();
+        const received = vi.fn();
+        const echoed = vi.fn();
+        second.subscribe(received);
+        first.subscribe(echoed);
+
+        const message: TabMessage = {
+            type: "changed",
+            resource: "notes",
+            ids: ["n1"],
+        };
+        first.publish(message);
+
+        expect(received).toHaveBeenCalledWith(message);
+        expect(echoed).not.toHaveBeenCalled();
+    });
+
+    it("should elect one leader and hand over when it closes", async () => {
+        const first = openTab();
+        const second = openTab();
+
+        await first.whenLeader();
+        expect(first.isLeader).toBe(true);
+        expect(second.isLeader).toBe(false);
+
+        first.stop();
+        await second.whenLeader();
+        expect(first.isLeader).toBe(false);
+        expect(second.isLeader).toBe(true);
+    });
+
+    it("should only report a follower while another tab leads", async () => {
+        const first = openTab();
+        const second = openTab();
+
+        await first.whenLeader();
+        expect(first.isFollower).toBe(false);
+        expect(second.isFollower).toBe(true);
+
+        first.stop();
+        await second.whenLeader();
+        expect(second.isFollower).toBe(false);
+    });
+
+    it("should not report a follower before the election has a result", async () => {
+        let grant!: () => void;
+        vi.stubGlobal("navigator", {
+            locks: {
+                request: (
+                    name: string,
+                    _options: unknown,
+                    callback: (lock: { name: string }) => Promise<void>
+                ) =>
+                    new Promise<void>((resolve) => {
+                        grant = () => void callback({ name }).then(resolve);
+                    }),
+            },
+        });
+
+        const tab = openTab();
+        expect(tab.isLeader).toBe(false);
+        expect(tab.isFollower).toBe(false);
+
+        grant();
+        await tab.whenLeader();
+        expect(tab.isLeader).toBe(true);
+    });
+
+    it("should lead without the Web Locks API", async () => {
+        vi.stubGlobal("navigator", {});
+
+        const tab = openTab();
+
+        await tab.whenLeader();
+        expect(tab.isLeader).toBe(true);
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Cross-tab coordination for Query instances sharing a database.
+ *
+ * This module broadcasts cache changes to the other tabs of the app over a
+ * BroadcastChannel and elects one leader tab (with the Web Locks API) to run
+ * background work such as outbox replay, cache sweeps and delta syncs.
+ */
+
+/**
+ * Message exchanged between tabs.
+ *
+ * - `changed`: rows of a resource were written to Dexie; `ids` lists them,
+ *   or is absent when the whole table changed (e.g., it was cleared)
+ * - `sync`: a follower tab asks the leader to run a resource's delta sync
+ */
+export type TabMessage =
+    | { type: "changed"; resource: string; ids?: unknown[] }
+    | { type: "sync"; resource: string };
+
+/**
+ * Broadcasts cache changes between tabs and elects a leader tab.
+ *
+ * Tabs open the same channel name (derived from the database name). The first
+ * tab to acquire the leader lock keeps it until it closes; another tab then
+ * takes over. Without the Web Locks API every tab leads; without
+ * BroadcastChannel, changes aren't shared.
+ *
+ * @example
+ * ```ts
+ * if (query.tabs.isLeader) {
+ *   // This tab replays the outbox, sweeps the cache and runs delta syncs
+ * }
+ * ```
+ */
+export class TabSync {
+    private name: string;
+    private channel: BroadcastChannel | null = null;
+    private listeners = new Set<(message: TabMessage) => void>();
+    private leader = false;
+    private follower = false;
+    private leadership: Promise<void>;
+    private resolveLeadership!: () => void;
+    private abortElection: AbortController | null = null;
+    private releaseLock: (() => void) | null = null;
+
+    /**
+     * @param name - Name of the channel and leader lock (the same in every tab)
+     */
+    constructor(name: string) {
+        this.name = name;
+        this.leadership = new Promise((resolve) => {
+            this.resolveLeadership = resolve;
+        });
+    }
+
+    /**
+     * Whether this tab currently runs background work.
+     */
+    get isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Whether another tab is known to lead. False until the election has a
+     * result, so work isn't left to a leader that may not exist.
+     */
+    get isFollower(): boolean {
+        return this.follower;
+    }
+
+    /**
+     * Opens the channel and enters the leader election.
+     * Does nothing if already started.
+     */
+    start(): void {
+        if (this.abortElection || this.leader) {
+            return;
+        }
+
+        if (typeof BroadcastChannel !== "undefined") {
+            this.channel = new BroadcastChannel(this.name);
+            this.channel.onmessage = (message: MessageEvent<TabMessage>) => {
+                this.listeners.forEach((listener) => listener(message.data));
+            };
+        }
+
+        const locks =
+            typeof navigator !== "undefined" ? navigator.locks : undefined;
+        if (!locks) {
+            this.becomeLeader();
+            return;
+        }
+
+        // Hold the lock until stop(); the next tab in line is granted it then
+        const abortElection = new AbortController();
+        this.abortElection = abortElection;
+        const lockName = `${this.name}:leader`;
+        const lead = () => {
+            this.follower = false;
+            this.becomeLeader();
+            return new Promise<void>((resolve) => {
+                this.releaseLock = resolve;
+            });
+        };
+
+        // Take the lock if it's free; otherwise another tab leads, and this
+        // one waits in line
+        locks
+            .request(lockName, { ifAvailable: true }, (lock) => {
+                if (abortElection.signal.aborted) {
+                    return undefined;
+                }
+                if (lock) {
+                    return lead();
+                }
+
+                this.follower = true;
+                locks
+                    .request(lockName, { signal: abortElection.signal }, lead)
+                    .catch(() => {
+                        // Aborted by stop() before the lock was granted
+                    });
+                return undefined;
+            })
+            .catch(() => {
+                // The lock request failed; this tab doesn't lead
+            });
+    }
+
+    /**
+     * Resolves once this tab is the leader.
+     */
+    whenLeader(): Promise<void> {
+        return this.leadership;
+    }
+
+    /**
+     * Sends a message to the other tabs (never to this one).
+     *
+     * @param message - The message to send
+     */
+    publish(message: TabMessage): void {
+        this.channel?.postMessage(message);
+    }
+
+    /**
+     * Listens to messages from the other tabs.
+     *
+     * @param listener - Called with each received message
+     * @returns Function that stops listening
+     */
+    subscribe(listener: (message: TabMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Closes the channel and gives up (or stops waiting for) leadership.
+     */
+    stop(): void {
+        this.channel?.close();
+        this.channel = null;
+        this.abortElection?.abort();
+        this.abortElection = null;
+        this.releaseLock?.();
+        this.releaseLock = null;
+        this.follower = false;
+
+        if (this.leader) {
+            this.leader = false;
+            this.leadership = new Promise((resolve) => {
+                this.resolveLeadership = resolve;
+            });
+        }
+    }
+
+    /**
+     * Marks this tab as the leader and wakes up waiters.
+     */
+    private becomeLeader(): void {
+        this.leader = true;
+        this.resolveLeadership();
+    }
+}
@@ -0,0 +1,226 @@
+/**
+ * Unit tests for table-registry.ts
+ *
+ * Tests schema versioning and migrations against an in-memory IndexedDB,
+ * with each "session" opening the database through a fresh Dexie instance.
+ */
+
+import Dexie from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { TableRegistry, type TableConfig } from "./table-registry";
+
+type Definitions = Record<string, Omit<TableConfig, "baseUrl">>;
+
+describe("TableRegistry", () => {
+    let dbName: string;
+    let sessions: Dexie[];
+
+    /**
+     * Opens the database with the given tables, like an app starting up.
+     */
+    async function openSession(definitions: Definitions) {
+        const db = new Dexie(dbName);
+        sessions.push(db);
+
+        const registry = new TableRegistry(db);
+        for (const [name, { keyFields, ...options }] of Object.entries(
+            definitions
+        )) {
+            registry.registerTable(name, keyFields, `/v1/${name}`, options);
+        }
+        await registry.initializeAll();
+
+        return { db, registry };
+    }
+
+    beforeEach(() => {
+        dbName = `TableRegistryTestDB-${Math.random()}`;
+        sessions = [];
+    });
+
+    afterEach(async () => {
+        sessions.forEach((db) => db.close());
+        await Dexie.delete(dbName);
+    });
+
+    it("should reopen the installed version when nothing changed", async () => {
+        const first = await openSession({ notes: {}, tags: {} });
+        expect(first.db.verno).toBe(1);
+        first.db.close();
+
+        const second = await openSession({ notes: {}, tags: {} });
+        expect(second.db.verno).toBe(1);
+    });
+
+    it("should not depend on registration order", async () => {
+        const first = await openSession({ notes: {}, tags: {} });
+        first.db.close();
+
+        const second = await openSession({ tags: {}, notes: {} });
+        expect(second.db.verno).toBe(1);
+    });
+
+    it("should upgrade once when an index is added and keep the rows", async () => {
+        const first = await openSession({ notes: {} });
+        await first.db.table("notes").put({ id: "1", status: "open" });
+        first.db.close();
+
+        const second = await openSession({ notes: { indexes: ["status"] } });
+        expect(second.db.verno).toBe(2);
+        expect(
+            await second.db
+                .table("notes")
+                .where("status")
+                .equals("open")
+                .count()
+        ).toBe(1);
+        second.db.close();
+
+        const third = await openSession({ notes: { indexes: ["status"] } });
+        expect(third.db.verno).toBe(2);
+    });
+
+    it("should keep installed tables that aren't registered", async () => {
+        const first = await openSession({ notes: {}, tags: {} });
+        await first.db.table("tags").put({ id: "t1" });
+        first.db.close();
+
+        const second = await openSession({ notes: {} });
+        expect(second.registry.getRegisteredTables()).toEqual(["notes"]);
+        second.db.close();
+
+        const third = await openSession({ notes: {}, tags: {} });
+        expect(third.db.verno).toBe(1);
+        expect(await third.db.table("tags").count()).toBe(1);
+    });
+
+    it("should migrate rows when the schema version is raised", async () => {
+        const first = await openSession({ notes: {} });
+        await first.db.table("notes").put({ id: "1", body: "Title\nText" });
+        first.db.close();
+
+        const migrate = vi.fn(async (_fromVersion: number, tx) => {
+            await tx
+                .table("notes")
+                .toCollection()
+                .modify((note: { body: string; title?: string }) => {
+                    note.title = note.body.split("\n")[0];
+                });
+        });
+        const second = await openSession({ notes: { version: 2, migrate } });
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(migrate).toHaveBeenCalledWith(1, expect.anything());
+        expect(await second.db.table("notes").get("1")).toMatchObject({
+            title: "Title",
+        });
+        second.db.close();
+
+        // The new version is recorded, so the migration doesn't run again
+        await openSession({ notes: { version: 2, migrate } });
+        expect(migrate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not migrate tables created at their current version", async () => {
+        const migrate = vi.fn();
+        const first = await openSession({ notes: { version: 3, migrate } });
+        first.db.close();
+
+        const second = await openSession({ notes: { version: 3, migrate } });
+        expect(second.db.verno).toBe(1);
+        expect(migrate).not.toHaveBeenCalled();
+    });
+
+    it("should add tables registered after initialization", async () => {
+        const { db, registry } = await openSession({ notes: {} });
+
+        registry.registerTable("tags", undefined, "/v1/tags");
+        await registry.initializeAll();
+
+        expect(db.verno).toBe(2);
+        expect(registry.getRegisteredTables()).toEqual(["notes", "tags"]);
+        await expect(db.table("tags").count()).resolves.toBe(0);
+    });
+
+    it("should register tables after a failed registration", async () => {
+        const { db, registry } = await openSession({ notes: {} });
+        const error = new Error("UpgradeError");
+        vi.spyOn(db, "open").mockRejectedValueOnce(error);
+
+        registry.registerTable("tags", undefined, "/v1/tags");
+        await expect(registry.initializeAll()).rejects.toBe(error);
+
+        registry.registerTable("labels", undefined, "/v1/labels");
+        await registry.initializeAll();
+
+        expect(registry.getRegisteredTables()).toEqual([
+            "notes",
+            "tags",
+            "labels",
+        ]);
+        await expect(db.table("labels").count()).resolves.toBe(0);
+    });
+
+    it("should resolve whenReady once the table is created", async () => {
+        const registry = new TableRegistry(new Dexie(dbName));
+        registry.registerTable("notes", undefined, "/v1/notes");
+
+        let ready = false;
+        void registry.whenReady("notes").then(() => {
+            ready = true;
+        });
+        await Promise.resolve();
+        expect(ready).toBe(false);
+
+        await registry.initializeAll();
+        await registry.whenReady("notes");
+        expect(ready).toBe(true);
+        expect(() => registry.whenReady("tags")).toThrowError(/not registered/);
+    });
+
+    it("should let open transactions finish before upgrading", async () => {
+        const { db, registry } = await openSession({ notes: {} });
+
+        let release!: () => void;
+        const released = new Promise<void>((resolve) => {
+            release = resolve;
+        });
+        const transaction = db.transaction("rw", "notes", async () => {
+            await db.table("notes").put({ id: "1" });
+            await Dexie.waitFor(released);
+            await db.table("notes").put({ id: "2" });
+        });
+
+        registry.registerTable("tags", undefined, "/v1/tags");
+        const initialized = registry.initializeAll();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        release();
+
+        await expect(transaction).resolves.toBeUndefined();
+        await initialized;
+        expect(await db.table("notes").count()).toBe(2);
+    });
+
+    it("should queue operations issued during an upgrade", async () => {
+        const { db, registry } = await openSession({ notes: {} });
+
+        registry.registerTable("tags", undefined, "/v1/tags");
+        const initialized = registry.initializeAll();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        const count = db.table("notes").count();
+
+        await initialized;
+        await expect(count).resolves.toBe(0);
+    });
+
+    it("should reject invalid schema versions", () => {
+        const registry = new TableRegistry(new Dexie(dbName));
+
+        expect(() =>
+            registry.registerTable("notes", undefined, "/v1/notes", {
+                version: 0,
+            })
+        ).toThrowError(/must be a positive integer/);
+    });
+});
@@ -7,6 +7,43 @@
 
 import Dexie, { type Table } from "dexie";
 
+import type { IndexDefinition, SchemaMigration } from "../types";
+import { buildIndexSpec } from "./indexes";
+
+/** Name of the internal table that records each table's schema version */
+const SCHEMA_TABLE = "_schema";
+
+/**
+ * Schema version recorded for a table.
+ */
+interface SchemaRecord {
+    /** The table name */
+    name: string;
+    /** Schema version the table's rows were last written or migrated with */
+    version: number;
+}
+
+/**
+ * Promise of a table becoming ready, with its settle functions.
+ */
+interface Readiness {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Schema of the database as it exists in IndexedDB.
+ */
+interface InstalledSchema {
+    /** Installed database version (0 if the database doesn't exist yet) */
+    version: number;
+    /** Store specs of the installed tables */
+    stores: Record<string, string>;
+    /** Recorded schema versions of the installed tables */
+    versions: Map<string, number>;
+}
+
 /**
  * Configuration for a registered table.
  */
@@ -15,6 +52,51 @@ export interface TableConfig {
     keyFields?: string[];
     /** Base URL for API requests */
     baseUrl: string;
+    /** Optional Dexie store spec that overrides the one derived from keyFields (internal tables) */
+    schema?: string;
+    /** Optional secondary indexes appended to the store spec */
+    indexes?: IndexDefinition[];
+    /** Schema version of the table's rows (default: 1) */
+    version?: number;
+    /** Optional upgrade of existing rows from an older schema version */
+    migrate?: SchemaMigration;
+}
+
+/**
+ * Table options besides its key fields and base URL.
+ */
+export type TableOptions = Omit<TableConfig, "keyFields" | "baseUrl">;
+
+/**
+ * Builds the Dexie store spec for a table configuration.
+ *
+ * @param config - The table configuration
+ * @returns Store spec: `schema` if given, else `id` or `[a+b]` for composite keys
+ *          followed by the secondary indexes
+ */
+function buildStoreSpec({ keyFields, schema, indexes }: TableConfig): string {
+    if (schema) {
+        return schema;
+    }
+    const primaryKey =
+        keyFields && keyFields.length > 0
+            ? `[${keyFields.join("+")}]` // Composite key
+            : "id"; // Simple key
+    return [primaryKey, ...(indexes ?? []).map(buildIndexSpec)].join(", ");
+}
+
+/**
+ * Checks whether two store specs declare the same primary key and indexes,
+ * regardless of index order.
+ */
+function isSameStoreSpec(a: string, b: string): boolean {
+    const [primaryKeyA, ...indexesA] = a.split(",").map((part) => part.trim());
+    const [primaryKeyB, ...indexesB] = b.split(",").map((part) => part.trim());
+    return (
+        primaryKeyA === primaryKeyB &&
+        indexesA.length === indexesB.length &&
+        indexesA.every((index) => indexesB.includes(index))
+    );
 }
 
 /**
@@ -26,10 +108,15 @@ export interface TableConfig {
  *
  * This approach is more efficient than creating tables one at a time.
  *
+ * The database version is derived from the installed schema and the registered
+ * definitions: it only increases when a table or index is added or changed, or
+ * a table's schema `version` is raised, so reloads with the same resources open
+ * the installed database as-is. Installed tables that aren't registered (yet)
+ * are kept.
+ *
  * @example
  * ```ts
  * const db = new Dexie("MyDB");
- * db.version(1).stores({});
  *
  * const registry = new TableRegistry(db);
  *
@@ -49,6 +136,7 @@ export class TableRegistry {
     private registeredTables = new Set<string>();
     private registrationQueue: Promise<void> = Promise.resolve();
     private pendingTables = new Map<string, TableConfig>();
+    private readiness = new Map<string, Readiness>();
 
     /**
      * Creates a new TableRegistry.
@@ -68,7 +156,10 @@ export class TableRegistry {
      * @param name - The table name
      * @param keyFields - Optional array of field names for composite primary key
      * @param baseUrl - The base URL for API requests
+     * @param options - Optional store spec override (e.g., "++seq, status"),
+     *   secondary indexes, schema version and migration
      * @throws {Error} If a table with the same name is already registered
+     * @throws {Error} If an index definition or the schema version is invalid
      *
      * @example
      * ```ts
@@ -77,9 +168,19 @@ export class TableRegistry {
      *
      * // Composite key (uses "space" and "name" fields)
      * registry.registerTable("tags", ["space", "name"], "/v1/tags");
+     *
+     * // Secondary indexes
+     * registry.registerTable("notes", undefined, "/v1/notes", {
+     *     indexes: ["status", { fields: "tags", multiEntry: true }],
+     * });
      * ```
      */
-    registerTable(name: string, keyFields?: string[], baseUrl?: string): void {
+    registerTable(
+        name: string,
+        keyFields?: string[],
+        baseUrl?: string,
+        options: TableOptions = {}
+    ): void {
         if (this.pendingTables.has(name) || this.registeredTables.has(name)) {
             throw new Error(
                 `Resource "${name}" is already registered in this Query. ` +
@@ -87,7 +188,47 @@ export class TableRegistry {
             );
         }
 
-        this.pendingTables.set(name, { keyFields, baseUrl: baseUrl || "" });
+        // Fail at registration rather than when the database opens
+        options.indexes?.forEach(buildIndexSpec);
+        if (
+            options.version !== undefined &&
+            (!Number.isInteger(options.version) || options.version < 1)
+        ) {
+            throw new Error(
+                `Schema version of "${name}" must be a positive integer.`
+            );
+        }
+
+        this.pendingTables.set(name, {
+            ...options,
+            keyFields,
+            baseUrl: baseUrl || "",
+        });
+
+        let resolve!: () => void;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<void>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        // Callers that never await readiness shouldn't see unhandled rejections
+        promise.catch(() => {});
+        this.readiness.set(name, { promise, resolve, reject });
+    }
+
+    /**
+     * Gets a promise that resolves once a registered table has been created.
+     *
+     * @param name - The table name
+     * @returns Promise that resolves when the table is ready, or rejects if creating it failed
+     * @throws {Error} If no table with this name is registered
+     */
+    whenReady(name: string): Promise<void> {
+        const readiness = this.readiness.get(name);
+        if (!readiness) {
+            throw new Error(`Resource "${name}" is not registered.`);
+        }
+        return readiness.promise;
     }
 
     /**
@@ -132,17 +273,24 @@ export class TableRegistry {
             return;
         }
 
-        // Create a map of table names to key fields for batch registration
-        const tablesToRegister = new Map<string, string[] | undefined>();
-        for (const [name, { keyFields }] of this.pendingTables.entries()) {
-            tablesToRegister.set(name, keyFields);
-        }
+        // Tables registered while this batch is created are left for the next one
+        const batch = new Map(this.pendingTables);
 
-        // Register all tables in a single batch operation
-        await this.createTables(tablesToRegister);
+        try {
+            // Register all tables in a single batch operation
+            await this.createTables(batch);
+        } catch (error) {
+            for (const name of batch.keys()) {
+                this.readiness.get(name)?.reject(error);
+            }
+            throw error;
+        }
 
-        // Clear pending tables after successful initialization
-        this.pendingTables.clear();
+        // Clear initialized tables after successful initialization
+        for (const name of batch.keys()) {
+            this.pendingTables.delete(name);
+            this.readiness.get(name)?.resolve();
+        }
     }
 
     /**
@@ -178,28 +326,30 @@ export class TableRegistry {
     /**
      * Creates multiple tables at once in a single database version increment.
      *
-     * This is more efficient than creating tables one at a time.
+     * Opens the installed database version when the tables already exist with
+     * the same schema. Otherwise the version is increased by one, and the
+     * upgrade runs the migrations of tables whose schema version was raised.
      * Operations are queued to ensure serial execution.
      *
-     * @param tables - Map of table names to their key field configurations
+     * @param tables - Map of table names to their configurations
      * @returns Promise that resolves when all tables are created
      *
      * @private
      */
     private async createTables(
-        tables: Map<string, string[] | undefined>
+        tables: Map<string, TableConfig>
     ): Promise<void> {
         if (tables.size === 0) {
             return;
         }
 
         // Queue the batch registration
-        this.registrationQueue = this.registrationQueue.then(async () => {
+        const registration = this.registrationQueue.then(async () => {
             // Filter out already registered tables
-            const newTables = new Map<string, string[] | undefined>();
-            for (const [name, keyFields] of tables.entries()) {
+            const newTables = new Map<string, TableConfig>();
+            for (const [name, config] of tables.entries()) {
                 if (!this.registeredTables.has(name)) {
-                    newTables.set(name, keyFields);
+                    newTables.set(name, config);
                 }
             }
 
@@ -208,31 +358,123 @@ export class TableRegistry {
                 return;
             }
 
-            // Close the database if it's open
-            if (this.db.isOpen()) {
-                this.db.close();
+            const installed = await this.readInstalledSchema();
+
+            // Keep every installed table, and add or update the new ones
+            const stores: Record<string, string> = {
+                ...installed.stores,
+                [SCHEMA_TABLE]: "name",
+            };
+            const records: SchemaRecord[] = [];
+            let changed = !installed.stores[SCHEMA_TABLE];
+            for (const [name, config] of newTables.entries()) {
+                const spec = buildStoreSpec(config);
+                const version = config.version ?? 1;
+                const installedSpec = installed.stores[name];
+
+                changed ||=
+                    !installedSpec ||
+                    !isSameStoreSpec(installedSpec, spec) ||
+                    (installed.versions.get(name) ?? 1) < version;
+                stores[name] = spec;
+                records.push({ name, version });
             }
 
-            // Build the stores configuration for all new tables
-            const stores: Record<string, string> = {};
-            for (const [name, keyFields] of newTables.entries()) {
-                const keySpec =
-                    keyFields && keyFields.length > 0
-                        ? `[${keyFields.join("+")}]` // Composite key
-                        : "id"; // Simple key
-                stores[name] = keySpec;
-                this.registeredTables.add(name);
+            const isNew = installed.version === 0;
+            const dbVersion = isNew
+                ? 1
+                : changed
+                  ? installed.version + 1
+                  : installed.version;
+
+            if (this.db.isOpen() && !changed) {
+                // The tables are installed and already part of the open schema
+                for (const name of newTables.keys()) {
+                    this.registeredTables.add(name);
+                }
+                return;
+            }
+
+            // No awaits until open() is called, so operations issued meanwhile
+            // wait for the reopen instead of failing. Closing doesn't abort open
+            // transactions; the upgrade waits for them to finish.
+            if (this.db.isOpen()) {
+                this.db.close();
             }
 
-            // Register all new tables in a single version increment
-            const currentVersion = this.db.verno;
-            this.db.version(currentVersion + 1).stores(stores);
+            this.db
+                .version(dbVersion)
+                .stores(stores)
+                .upgrade(async (tx) => {
+                    // Runs only when upgrading an existing database
+                    for (const [name, config] of newTables.entries()) {
+                        const fromVersion = installed.versions.get(name) ?? 1;
+                        if (
+                            installed.stores[name] &&
+                            config.migrate &&
+                            fromVersion < (config.version ?? 1)
+                        ) {
+                            await config.migrate(fromVersion, tx);
+                        }
+                    }
+                    await tx.table(SCHEMA_TABLE).bulkPut(records);
+                });
 
             // Reopen the database
             await this.db.open();
+
+            if (isNew) {
+                await this.db.table(SCHEMA_TABLE).bulkPut(records);
+            }
+            for (const name of newTables.keys()) {
+                this.registeredTables.add(name);
+            }
         });
 
+        // A failed batch rejects its own caller only; later batches still run
+        this.registrationQueue = registration.catch(() => {});
+
         // Wait for registration to complete
-        await this.registrationQueue;
+        await registration;
+    }
+
+    /**
+     * Reads the installed database version, table specs and recorded schema versions.
+     *
+     * @private
+     */
+    private async readInstalledSchema(): Promise<InstalledSchema> {
+        const installed: InstalledSchema = {
+            version: 0,
+            stores: {},
+            versions: new Map(),
+        };
+        if (!(await Dexie.exists(this.db.name))) {
+            return installed;
+        }
+
+        // Without declared versions, Dexie opens the database as installed
+        const probe = new Dexie(this.db.name);
+        try {
+            await probe.open();
+            installed.version = probe.verno;
+            for (const table of probe.tables) {
+                const { primKey, indexes } = table.schema;
+                installed.stores[table.name] = [primKey, ...indexes]
+                    .map((index) => index.src)
+                    .join(", ");
+            }
+            if (installed.stores[SCHEMA_TABLE]) {
+                const records = await probe
+                    .table<SchemaRecord>(SCHEMA_TABLE)
+                    .toArray();
+                for (const { name, version } of records) {
+                    installed.versions.set(name, version);
+                }
+            }
+        } finally {
+            probe.close();
+        }
+        return installed;
     }
 }
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for url-builder.ts
+ *
+ * Tests query-string serialization of list params and filter dialects.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { suffixDialect } from "./filter-dialect";
+import { URLBuilder } from "./url-builder";
+
+describe("URLBuilder", () => {
+    describe("buildUrl", () => {
+        const builder = new URLBuilder("/v1/tasks");
+
+        it("should join list values with commas", () => {
+            expect(
+                builder.buildUrl("/v1/tasks", {
+                    status: ["open", "on hold"],
+                    limit: 10,
+                })
+            ).toBe("/v1/tasks?limit=10&status=open,on%20hold");
+        });
+
+        it("should write conditions in the bracket dialect by default", () => {
+            expect(
+                builder.buildUrl("/v1/tasks", {
+                    price: { gte: 10, lt: 100 },
+                    owner: { in: ["u1", "u2"] },
+                    archivedAt: { isNull: true },
+                    title: { eq: "a&b" },
+                })
+            ).toBe(
+                "/v1/tasks?price[gte]=10&price[lt]=100&owner[in]=u1,u2" +
+                    "&archivedAt[isNull]=true&title=a%26b"
+            );
+        });
+
+        it("should write object values field by field", () => {
+            expect(
+                builder.buildUrl("/v1/tasks", {
+                    "location.city": "Oslo",
+                    owner: { id: "u1", team: { id: "t1" } },
+                    meta: { ne: { status: "done" } },
+                })
+            ).toBe(
+                "/v1/tasks?location.city=Oslo" +
+                    "&owner[id]=u1&owner[team][id]=t1&meta[status][ne]=done"
+            );
+        });
+
+        it("should throw on conditions mixing operators with other keys", () => {
+            expect(() =>
+                builder.buildUrl("/v1/tasks", {
+                    price: { gte: 1, lte3: 5 } as never,
+                })
+            ).toThrowError('Unknown filter operator "lte3".');
+        });
+
+        it("should number $or groups", () => {
+            expect(
+                builder.buildUrl("/v1/tasks", {
+                    status: "open",
+                    $or: [
+                        { owner: "me" },
+                        { assignee: ["me", "team"], dueAt: { lt: "2024-06" } },
+                    ],
+                })
+            ).toBe(
+                "/v1/tasks?status=open&or[0][owner]=me" +
+                    "&or[1][assignee][in]=me,team&or[1][dueAt][lt]=2024-06"
+            );
+        });
+
+        it("should write conditions in another dialect", () => {
+            const django = new URLBuilder(
+                "/v1/tasks",
+                undefined,
+                suffixDialect
+            );
+
+            expect(
+                django.buildUrl("/v1/tasks", {
+                    price: { gte: 10 },
+                    title: { startsWith: "Q3", eq: "Q3 plan" },
+                })
+            ).toBe(
+                "/v1/tasks?price__gte=10&title__startswith=Q3&title=Q3%20plan"
+            );
+            expect(() =>
+                django.buildUrl("/v1/tasks", { $or: [{ owner: "me" }] })
+            ).toThrowError(/doesn't support \$or groups/);
+        });
+    });
+});
@@ -5,8 +5,20 @@
  * with support for both simple and composite keys.
  */
 
-import type { ListParams } from "../types";
+import type {
+    FilterCondition,
+    FilterObject,
+    FilterOperator,
+    FilterScalar,
+    ListParams,
+} from "../types";
+import {
+    assertFilterOperator,
+    isFilterCondition,
+    OR_PARAM,
+} from "../utils/filter-matcher";
 
+import { bracketDialect, type FilterDialect } from "./filter-dialect";
 import { extractPrimitiveValue } from "./id-utils";
 
 type Any = { [key: string]: unknown };
@@ -32,21 +44,32 @@ type Any = { [key: string]: unknown };
  * // With query params
  * tagBuilder.buildUrl("/v1/tags", { limit: 10, offset: 0 });
  * // => "/v1/tags?limit=10&offset=0"
+ *
+ * // With structured filters
+ * tagBuilder.buildUrl("/v1/tags", { usage: { gte: 5 } });
+ * // => "/v1/tags?usage[gte]=5"
  * ```
  */
 export class URLBuilder<T, ID> {
     private baseUrl: string;
     private keyFields?: string[];
+    private filterDialect: FilterDialect;
 
     /**
      * Creates a new URLBuilder.
      *
      * @param baseUrl - The base URL for the resource (e.g., "/v1/users")
      * @param keyFields - Optional array of key field names for composite keys
+     * @param filterDialect - Query-string syntax of structured filters (default: bracketDialect)
      */
-    constructor(baseUrl: string, keyFields?: string[]) {
+    constructor(
+        baseUrl: string,
+        keyFields?: string[],
+        filterDialect: FilterDialect = bracketDialect
+    ) {
         this.baseUrl = baseUrl;
         this.keyFields = keyFields;
+        this.filterDialect = filterDialect;
     }
 
     /**
@@ -89,34 +112,163 @@ export class URLBuilder<T, ID> {
     /**
      * Builds a URL with query parameters.
      *
+     * Structured conditions and `$or` groups are written in the builder's
+     * filter dialect; list values are joined with commas.
+     *
      * @param path - The base path
      * @param params - Optional query parameters
      * @returns The full URL with query string
+     * @throws {Error} If params hold `$or` groups the dialect can't express
      *
      * @example
      * ```ts
      * buildUrl("/v1/users", { limit: 10, offset: 0, active: true })
      * // => "/v1/users?limit=10&offset=0&active=true"
      *
+     * buildUrl("/v1/users", { age: { gte: 18 }, $or: [{ role: "admin" }, { role: "owner" }] })
+     * // => "/v1/users?age[gte]=18&or[0][role]=admin&or[1][role]=owner"
+     *
      * buildUrl("/v1/users")
      * // => "/v1/users"
      * ```
      */
     buildUrl(path: string, params?: ListParams): string {
         const url = new URL(path, "http://_");
-        let arrayParms = "";
+        // Appended unencoded, so list commas and dialect brackets stay readable
+        let rawParams = "";
 
         if (params) {
             Object.entries(params).forEach(([key, value]) => {
-                if (value && Array.isArray(value)) {
-                    arrayParms += `&${key}=${value
-                        .map((v) => encodeURIComponent(v))
-                        .join(",")}`;
+                if (key === OR_PARAM && Array.isArray(value)) {
+                    rawParams += this.serializeOrGroups(
+                        value as ListParams[],
+                        []
+                    );
+                } else if (isFilterCondition(value)) {
+                    rawParams += this.serializeCondition([key], value);
+                } else if (isFilterObject(value)) {
+                    rawParams += this.serializeObject([key], value, "eq");
+                } else if (value && Array.isArray(value)) {
+                    rawParams += `&${key}=${formatValue(value as string[])}`;
                 } else if (value !== undefined) {
                     url.searchParams.append(key, String(value));
                 }
             });
         }
-        return url.pathname + url.search + arrayParms + url.hash;
+
+        const search = url.search
+            ? url.search + rawParams
+            : rawParams.replace(/^&/, "?");
+        return url.pathname + search + url.hash;
+    }
+
+    /**
+     * Serializes the operators of a condition as `&name=value` pairs.
+     *
+     * @throws {Error} If the condition uses an unknown operator
+     */
+    private serializeCondition(
+        path: string[],
+        condition: FilterCondition
+    ): string {
+        return Object.entries(condition)
+            .map(([operator, value]) => {
+                assertFilterOperator(operator);
+                if (value === undefined) {
+                    return "";
+                }
+                if (isFilterObject(value)) {
+                    return this.serializeObject(path, value, operator);
+                }
+                return `&${this.filterDialect.paramName(
+                    path,
+                    operator
+                )}=${formatValue(value)}`;
+            })
+            .join("");
+    }
+
+    /**
+     * Serializes an object value field by field under nested paths
+     * (e.g., `location[city]=Oslo`), applying the operator to each field.
+     */
+    private serializeObject(
+        path: string[],
+        object: FilterObject,
+        operator: FilterOperator
+    ): string {
+        return Object.entries(object)
+            .map(([field, value]) => {
+                const fieldPath = [...path, field];
+                if (value === undefined) {
+                    return "";
+                }
+                return isFilterObject(value)
+                    ? this.serializeObject(fieldPath, value, operator)
+                    : `&${this.filterDialect.paramName(
+                          fieldPath,
+                          operator
+                      )}=${formatValue(value)}`;
+            })
+            .join("");
+    }
+
+    /**
+     * Serializes `$or` groups, numbering them under an `or` path segment.
+     * Plain values in groups are written as `eq` (or `in` for lists).
+     *
+     * @throws {Error} If the dialect can't express OR groups
+     */
+    private serializeOrGroups(groups: ListParams[], path: string[]): string {
+        if (this.filterDialect.supportsOr === false) {
+            throw new Error(
+                `The filter dialect of ${this.baseUrl} doesn't support $or groups.`
+            );
+        }
+
+        return groups
+            .map((group, index) => {
+                const groupPath = [...path, "or", String(index)];
+                return Object.entries(group)
+                    .map(([key, value]) => {
+                        if (key === OR_PARAM && Array.isArray(value)) {
+                            return this.serializeOrGroups(
+                                value as ListParams[],
+                                groupPath
+                            );
+                        }
+                        if (value === undefined) {
+                            return "";
+                        }
+
+                        const condition = isFilterCondition(value)
+                            ? value
+                            : Array.isArray(value)
+                              ? { in: value as string[] }
+                              : { eq: value };
+                        return this.serializeCondition(
+                            [...groupPath, key],
+                            condition
+                        );
+                    })
+                    .join("");
+            })
+            .join("");
     }
 }
+
+/**
+ * Checks whether a param value is an object value (not a list or a scalar).
+ */
+function isFilterObject(value: unknown): value is FilterObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Encodes a param value; lists are joined with commas and null is written as "null".
+ */
+function formatValue(value: FilterScalar | FilterScalar[]): string {
+    return Array.isArray(value)
+        ? value.map((item) => encodeURIComponent(String(item))).join(",")
+        : encodeURIComponent(String(value));
+}
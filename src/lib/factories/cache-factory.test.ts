@@ -0,0 +1,157 @@
+/**
+ * Unit tests for cache-factory.ts
+ *
+ * Tests how real-time events and other tabs' changes are applied to Dexie
+ * and the query cache.
+ */
+
+import { QueryClient } from "@tanstack/react-query";
+import Dexie, { type Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { EntityNormalizer } from "../core/entity-normalizer";
+import type { RealtimeHandler } from "../core/realtime";
+import { createRealtimeHandler, createTabChangeHandler } from "./cache-factory";
+import { createQueryKeys } from "./query-keys-factory";
+
+interface TestNote {
+    id: string;
+    title: string;
+}
+
+describe("createRealtimeHandler", () => {
+    const queryKeys = createQueryKeys<TestNote, string>("notes");
+    let db: Dexie;
+    let table: Table<TestNote, string>;
+    let queryClient: QueryClient;
+    let handleEvent: RealtimeHandler;
+
+    beforeEach(async () => {
+        db = new Dexie(`CacheFactoryTestDB-${Math.random()}`);
+        db.version(1).stores({ notes: "id" });
+        await db.open();
+        table = db.table("notes");
+        queryClient = new QueryClient();
+        handleEvent = createRealtimeHandler<TestNote, string>(
+            {
+                getTable: () => table,
+                normalizer: new EntityNormalizer<TestNote>(),
+                queryKeys,
+                queryClient,
+            },
+            undefined,
+            (note) => note.id
+        );
+    });
+
+    afterEach(async () => {
+        queryClient.clear();
+        await db.delete();
+    });
+
+    it("should store pushed items and update their detail query", async () => {
+        const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+        const note = { id: "n1", title: "Pushed" };
+
+        await handleEvent({ resource: "notes", op: "update", entity: note });
+
+        expect(await table.get("n1")).toEqual(note);
+        expect(queryClient.getQueryData(queryKeys.detail("n1"))).toEqual(note);
+        expect(invalidate).toHaveBeenCalledWith(
+            { queryKey: queryKeys.lists() },
+            { cancelRefetch: false }
+        );
+    });
+
+    it("should delete removed items and invalidate their detail query", async () => {
+        await table.put({ id: "n1", title: "Doomed" });
+        queryClient.setQueryData(queryKeys.detail("n1"), {
+            id: "n1",
+            title: "Doomed",
+        });
+
+        await handleEvent({ resource: "notes", op: "remove", id: "n1" });
+
+        expect(await table.get("n1")).toBeUndefined();
+        expect(
+            queryClient.getQueryState(queryKeys.detail("n1"))?.isInvalidated
+        ).toBe(true);
+    });
+});
+
+describe("createTabChangeHandler", () => {
+    const queryKeys = createQueryKeys<TestNote, string>("notes");
+    let db: Dexie;
+    let table: Table<TestNote, string>;
+    let queryClient: QueryClient;
+    let handleChange: (ids?: string[]) => Promise<void>;
+
+    beforeEach(async () => {
+        db = new Dexie(`CacheFactoryTestDB-${Math.random()}`);
+        db.version(1).stores({ notes: "id" });
+        await db.open();
+        table = db.table("notes");
+        queryClient = new QueryClient();
+        handleChange = createTabChangeHandler<TestNote, string>(
+            {
+                getTable: () => table,
+                normalizer: new EntityNormalizer<TestNote>(),
+                queryKeys,
+                queryClient,
+            },
+            undefined
+        );
+    });
+
+    afterEach(async () => {
+        queryClient.clear();
+        await db.delete();
+    });
+
+    it("should refresh loaded details from Dexie", async () => {
+        // Written by the other tab
+        await table.bulkPut([
+            { id: "n1", title: "Renamed" },
+            { id: "n2", title: "Never loaded here" },
+        ]);
+        queryClient.setQueryData(queryKeys.detail("n1"), {
+            id: "n1",
+            title: "Original",
+        });
+        queryClient.setQueryData(queryKeys.detail("n3"), {
+            id: "n3",
+            title: "Deleted",
+        });
+        const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+
+        await handleChange(["n1", "n2", "n3"]);
+
+        expect(queryClient.getQueryData(queryKeys.detail("n1"))).toEqual({
+            id: "n1",
+            title: "Renamed",
+        });
+        expect(
+            queryClient.getQueryState(queryKeys.detail("n2"))
+        ).toBeUndefined();
+        expect(
+            queryClient.getQueryState(queryKeys.detail("n3"))?.isInvalidated
+        ).toBe(true);
+        expect(invalidate).toHaveBeenCalledWith(
+            { queryKey: queryKeys.lists() },
+            { cancelRefetch: false }
+        );
+    });
+
+    it("should invalidate every query of the resource without IDs", async () => {
+        queryClient.setQueryData(queryKeys.detail("n1"), {
+            id: "n1",
+            title: "Cleared",
+        });
+
+        await handleChange();
+
+        expect(
+            queryClient.getQueryState(queryKeys.detail("n1"))?.isInvalidated
+        ).toBe(true);
+    });
+});
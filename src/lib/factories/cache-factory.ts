@@ -5,10 +5,12 @@
  * both Dexie and TanStack Query caches.
  */
 
+import type { QueryClient } from "@tanstack/react-query";
 import type { Table } from "dexie";
 
-import { queryClient } from "../../query-client";
 import type { EntityNormalizer } from "../core/entity-normalizer";
+import { buildDexieKey } from "../core/id-utils";
+import type { RealtimeHandler } from "../core/realtime";
 import type { CacheOperations, ListParams, QueryKeys } from "../types";
 
 /**
@@ -21,6 +23,12 @@ export interface CacheConfig<T, ID> {
     normalizer: EntityNormalizer<T>;
     /** Query key factory for cache management */
     queryKeys: QueryKeys<T, ID>;
+    /** QueryClient to seed and clear (should be the one the hooks read from) */
+    queryClient: QueryClient;
+    /** Forgets the delta sync cursor, so a cleared table is fully synced again */
+    resetSyncCursor?: () => Promise<void>;
+    /** Called after rows were written to Dexie (all rows if `ids` is omitted), e.g., to notify other tabs */
+    onChanged?: (ids?: ID[]) => void;
 }
 
 /**
@@ -46,6 +54,7 @@ export interface CacheConfig<T, ID> {
  *     getTable: () => usersTable,
  *     normalizer: new EntityNormalizer(),
  *     queryKeys: createQueryKeys("users"),
+ *     queryClient,
  *   },
  *   (user) => user.id
  * );
@@ -62,7 +71,14 @@ export function createCacheOperations<T, ID>(
     config: CacheConfig<T, ID>,
     getEntityId: (entity: T) => ID
 ): CacheOperations<T> {
-    const { getTable, normalizer, queryKeys } = config;
+    const {
+        getTable,
+        normalizer,
+        queryKeys,
+        queryClient,
+        resetSyncCursor,
+        onChanged,
+    } = config;
 
     return {
         /**
@@ -91,6 +107,7 @@ export function createCacheOperations<T, ID>(
             // Update React Query cache for detail query (original entity with nested objects)
             const entityId = getEntityId(item);
             queryClient.setQueryData(queryKeys.detail(entityId), item);
+            onChanged?.([entityId]);
         },
 
         /**
@@ -125,6 +142,7 @@ export function createCacheOperations<T, ID>(
                 const entityId = getEntityId(item);
                 queryClient.setQueryData(queryKeys.detail(entityId), item);
             });
+            onChanged?.(items.map(getEntityId));
         },
 
         /**
@@ -140,9 +158,112 @@ export function createCacheOperations<T, ID>(
             // Clear Dexie
             const tbl = getTable();
             await tbl.clear();
+            await resetSyncCursor?.();
 
             // Clear React Query cache
             queryClient.removeQueries({ queryKey: queryKeys.all });
+            onChanged?.();
         },
     };
 }
+
+/**
+ * Creates the handler that applies a resource's real-time events.
+ *
+ * Created and updated items are written to Dexie and to their detail query;
+ * removed items are deleted from Dexie and their detail query is invalidated.
+ * List queries are invalidated, since the change may add, move or drop items.
+ *
+ * @param config - Cache configuration
+ * @param keyFields - Optional key field names for composite keys
+ * @param getEntityId - Function to extract ID from entity
+ * @returns Handler for the resource's events
+ *
+ * @example
+ * ```ts
+ * realtime.registerHandler(
+ *   "users",
+ *   createRealtimeHandler<User, string>(config, undefined, (user) => user.id)
+ * );
+ * ```
+ */
+export function createRealtimeHandler<T, ID>(
+    config: CacheConfig<T, ID>,
+    keyFields: string[] | undefined,
+    getEntityId: (entity: T) => ID
+): RealtimeHandler {
+    const { getTable, normalizer, queryKeys, queryClient, onChanged } = config;
+
+    return async (event) => {
+        const tbl = getTable();
+
+        if (event.op === "remove") {
+            const id = event.id as ID;
+            await tbl.delete(buildDexieKey(id, keyFields) as any);
+            void queryClient.invalidateQueries({
+                queryKey: queryKeys.detail(id),
+            });
+            onChanged?.([id]);
+        } else {
+            const entity = event.entity as T;
+            const entityId = getEntityId(entity);
+            await tbl.put(normalizer.normalize(entity));
+            queryClient.setQueryData(queryKeys.detail(entityId), entity);
+            onChanged?.([entityId]);
+        }
+
+        // Let in-flight list fetches finish; they read the updated table
+        void queryClient.invalidateQueries(
+            { queryKey: queryKeys.lists() },
+            { cancelRefetch: false }
+        );
+    };
+}
+
+/**
+ * Creates the handler that refreshes a resource's queries after another tab
+ * wrote to the shared Dexie table.
+ *
+ * Loaded detail queries of the changed rows are set to the rows now in Dexie
+ * (or invalidated if the row was deleted); list queries are invalidated.
+ * Without IDs, every query of the resource is invalidated.
+ *
+ * @param config - Cache configuration
+ * @param keyFields - Optional key field names for composite keys
+ * @returns Handler called with the changed IDs
+ */
+export function createTabChangeHandler<T, ID>(
+    config: CacheConfig<T, ID>,
+    keyFields: string[] | undefined
+): (ids?: ID[]) => Promise<void> {
+    const { getTable, queryKeys, queryClient } = config;
+
+    return async (ids) => {
+        if (!ids) {
+            await queryClient.invalidateQueries({ queryKey: queryKeys.all });
+            return;
+        }
+
+        const tbl = getTable();
+        for (const id of ids) {
+            // Only refresh details this tab has loaded
+            const queryKey = queryKeys.detail(id);
+            if (!queryClient.getQueryState(queryKey)) {
+                continue;
+            }
+
+            const row = await tbl.get(buildDexieKey(id, keyFields) as any);
+            if (row) {
+                queryClient.setQueryData(queryKey, row);
+            } else {
+                void queryClient.invalidateQueries({ queryKey });
+            }
+        }
+
+        // Let in-flight list fetches finish; they read the updated table
+        void queryClient.invalidateQueries(
+            { queryKey: queryKeys.lists() },
+            { cancelRefetch: false }
+        );
+    };
+}
@@ -6,12 +6,15 @@
  * After refactoring to delegate to operations, these tests should still pass.
  */
 
-import { renderHook, waitFor } from "@testing-library/react";
+import { act, renderHook, waitFor } from "@testing-library/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import Dexie, { type Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { ReactNode } from "react";
 
+import { EntityNormalizer } from "../core/entity-normalizer";
 import type {
+    InfiniteListData,
     ListParams,
     QueryKeys,
     ResourceOperations,
@@ -26,8 +29,8 @@ interface TestUser {
 }
 
 // Helper to create QueryClient wrapper
-function createWrapper() {
-    const queryClient = new QueryClient({
+function createWrapper(
+    queryClient = new QueryClient({
         defaultOptions: {
             queries: {
                 retry: false,
@@ -37,8 +40,8 @@ function createWrapper() {
                 retry: false,
             },
         },
-    });
-
+    })
+) {
     return ({ children }: { children: ReactNode }) => (
         <QueryClientProvider client={queryClient}>
             {children}
@@ -59,6 +62,8 @@ describe("createHooks", () => {
             all: ["users"],
             lists: () => ["users", "list"] as const,
             list: (params?: ListParams) => ["users", "list", params] as const,
+            infinite: (params?: ListParams) =>
+                ["users", "list", "infinite", params] as const,
             detail: (id: string) => ["users", "detail", id] as const,
         };
 
@@ -66,9 +71,11 @@ describe("createHooks", () => {
         mockOperations = {
             getById: vi.fn(),
             list: vi.fn(),
+            listPage: vi.fn(),
             create: vi.fn(),
             update: vi.fn(),
             remove: vi.fn(),
+            sync: vi.fn(),
         };
 
         // Create test config
@@ -100,7 +107,9 @@ describe("createHooks", () => {
 
             await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-            expect(mockOperations.getById).toHaveBeenCalledWith("user1");
+            expect(mockOperations.getById).toHaveBeenCalledWith("user1", {
+                signal: expect.any(AbortSignal),
+            });
             expect(result.current.data).toEqual(testUser);
         });
 
@@ -148,10 +157,10 @@ describe("createHooks", () => {
 
             await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-            expect(mockOperations.list).toHaveBeenCalledWith({
-                role: "admin",
-                active: true,
-            });
+            expect(mockOperations.list).toHaveBeenCalledWith(
+                { role: "admin", active: true },
+                { signal: expect.any(AbortSignal) }
+            );
             expect(result.current.data).toEqual(testUsers);
         });
 
@@ -183,11 +192,283 @@ describe("createHooks", () => {
 
             await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-            expect(mockOperations.list).toHaveBeenCalledWith(undefined);
+            expect(mockOperations.list).toHaveBeenCalledWith(undefined, {
+                signal: expect.any(AbortSignal),
+            });
             expect(result.current.data).toEqual(testUsers);
         });
     });
 
+    describe("useInfiniteList", () => {
+        const page1: TestUser[] = [
+            { id: "user1", name: "User 1", email: "user1@example.com" },
+        ];
+        const page2: TestUser[] = [
+            { id: "user2", name: "User 2", email: "user2@example.com" },
+        ];
+
+        beforeEach(() => {
+            config.getTable = () =>
+                ({ toArray: vi.fn().mockResolvedValue([]) }) as any;
+        });
+
+        it("should fetch pages with the next page param", async () => {
+            vi.mocked(mockOperations.listPage)
+                .mockResolvedValueOnce({
+                    data: page1,
+                    meta: { nextCursor: "c2" },
+                    nextPageParam: "c2",
+                })
+                .mockResolvedValueOnce({
+                    data: page2,
+                    meta: { nextCursor: null },
+                });
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useInfiniteList({ role: "admin" }),
+                { wrapper: createWrapper() }
+            );
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(mockOperations.listPage).toHaveBeenCalledWith(
+                { role: "admin" },
+                undefined,
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(result.current.hasNextPage).toBe(true);
+
+            await act(() => result.current.fetchNextPage());
+
+            await waitFor(() =>
+                expect(
+                    result.current.data?.pages.flatMap((page) => page.data)
+                ).toEqual([...page1, ...page2])
+            );
+            expect(mockOperations.listPage).toHaveBeenLastCalledWith(
+                { role: "admin" },
+                "c2",
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(result.current.hasNextPage).toBe(false);
+        });
+
+        it("should serve the first page from Dexie while fetching", async () => {
+            const cachedUsers: TestUser[] = [
+                { id: "user1", name: "Cached 1", email: "user1@example.com" },
+                { id: "user2", name: "Cached 2", email: "user2@example.com" },
+                { id: "user3", name: "Cached 3", email: "user3@example.com" },
+            ];
+            config.getTable = () =>
+                ({ toArray: vi.fn().mockResolvedValue(cachedUsers) }) as any;
+            config.pagination = { type: "cursor", pageSize: 2 };
+
+            let resolvePage: (page: {
+                data: TestUser[];
+                meta: object;
+            }) => void = () => {};
+            vi.mocked(mockOperations.listPage).mockReturnValue(
+                new Promise((resolve) => {
+                    resolvePage = resolve;
+                })
+            );
+
+            const queryClient = new QueryClient({
+                defaultOptions: { queries: { retry: false } },
+            });
+            const hooks = createHooks(config);
+            const { result } = renderHook(() => hooks.useInfiniteList(), {
+                wrapper: createWrapper(queryClient),
+            });
+
+            await waitFor(() =>
+                expect(result.current.data?.pages[0].data).toEqual(
+                    cachedUsers.slice(0, 2)
+                )
+            );
+            expect(result.current.isFetching).toBe(true);
+            // The cached rows never enter the query cache
+            expect(result.current.isPlaceholderData).toBe(true);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.infinite(undefined))
+            ).toBeUndefined();
+
+            resolvePage({ data: page1, meta: {} });
+
+            await waitFor(() =>
+                expect(result.current.data?.pages[0].data).toEqual(page1)
+            );
+            expect(result.current.isFetching).toBe(false);
+            expect(result.current.isPlaceholderData).toBe(false);
+        });
+
+        it("should disable when any param is undefined", () => {
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useInfiniteList({ role: undefined }),
+                { wrapper: createWrapper() }
+            );
+
+            expect(result.current.fetchStatus).toBe("idle");
+            expect(mockOperations.listPage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("live hooks", () => {
+        let db: Dexie;
+        let table: Table<TestUser, string>;
+
+        beforeEach(async () => {
+            db = new Dexie(`HooksFactoryTestDB-${Math.random()}`);
+            db.version(1).stores({ users: "id" });
+            await db.open();
+            table = db.table("users");
+            config.getTable = () => table;
+            await table.bulkPut([
+                { id: "user1", name: "Alice", email: "alice@example.com" },
+                { id: "user2", name: "Bob", email: "bob@example.com" },
+            ]);
+        });
+
+        afterEach(async () => {
+            await db.delete();
+        });
+
+        it("should follow direct writes to the row", async () => {
+            vi.mocked(mockOperations.getById).mockImplementation(
+                async (id) => (await table.get(id)) ?? null
+            );
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(() => hooks.useLiveGetById("user1"), {
+                wrapper: createWrapper(),
+            });
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(result.current.data?.name).toBe("Alice");
+
+            // e.g., useDebouncedUpdate's local save, which never refetches
+            await act(async () => {
+                await table.update("user1", { name: "Alicia" });
+            });
+            await waitFor(() =>
+                expect(result.current.data?.name).toBe("Alicia")
+            );
+            expect(mockOperations.getById).toHaveBeenCalledTimes(1);
+        });
+
+        it("should keep filtered lists in sync with the table", async () => {
+            // The network revalidation never lands
+            vi.mocked(mockOperations.list).mockReturnValue(
+                new Promise(() => {})
+            );
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useLiveList({ name: "Bob" }),
+                { wrapper: createWrapper() }
+            );
+
+            await waitFor(() =>
+                expect(result.current.data?.map((user) => user.id)).toEqual([
+                    "user2",
+                ])
+            );
+
+            await act(async () => {
+                await table.put({
+                    id: "user3",
+                    name: "Bob",
+                    email: "bob3@example.com",
+                });
+            });
+            await waitFor(() =>
+                expect(result.current.data?.map((user) => user.id)).toEqual([
+                    "user2",
+                    "user3",
+                ])
+            );
+            expect(mockOperations.list).toHaveBeenCalledWith(
+                { name: "Bob" },
+                { signal: expect.any(AbortSignal) }
+            );
+        });
+
+        it("should not re-render for query state the component doesn't use", async () => {
+            let resolveList!: (users: TestUser[]) => void;
+            vi.mocked(mockOperations.list).mockReturnValue(
+                new Promise((resolve) => {
+                    resolveList = resolve;
+                })
+            );
+            const queryClient = new QueryClient({
+                defaultOptions: { queries: { retry: false } },
+            });
+            // The revalidation leaves the cached data as it was
+            queryClient.setQueryData(mockQueryKeys.list({ name: "Bob" }), []);
+
+            const hooks = createHooks(config);
+            let renders = 0;
+            const { result } = renderHook(
+                () => {
+                    renders++;
+                    const { data, error } = hooks.useLiveList({ name: "Bob" });
+                    return error ? [] : data;
+                },
+                { wrapper: createWrapper(queryClient) }
+            );
+            await waitFor(() => expect(result.current).toHaveLength(1));
+            const rendersBeforeFetch = renders;
+
+            await act(async () => {
+                resolveList([]);
+            });
+            await waitFor(() =>
+                expect(
+                    queryClient.getQueryState(
+                        mockQueryKeys.list({ name: "Bob" })
+                    )?.status
+                ).toBe("success")
+            );
+            expect(renders).toBe(rendersBeforeFetch);
+            expect(result.current).toHaveLength(1);
+        });
+
+        it("should not read Dexie while disabled", async () => {
+            const getTable = vi.fn(() => table);
+            config.getTable = getTable;
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useLiveGetById(undefined),
+                { wrapper: createWrapper() }
+            );
+
+            expect(result.current.data).toBeUndefined();
+            expect(getTable).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("injected queryClient", () => {
+        it("should use the injected client without a provider", async () => {
+            const queryClient = new QueryClient({
+                defaultOptions: { queries: { retry: false } },
+            });
+            const testUsers: TestUser[] = [
+                { id: "user1", name: "User 1", email: "user1@example.com" },
+            ];
+            vi.mocked(mockOperations.list).mockResolvedValue(testUsers);
+
+            const hooks = createHooks({ ...config, queryClient });
+            const { result } = renderHook(() => hooks.useList());
+
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual(
+                testUsers
+            );
+        });
+    });
+
     describe("useCreate", () => {
         it("should call operations.create on mutate", async () => {
             const newUserData = { name: "New User", email: "new@example.com" };
@@ -256,4 +537,216 @@ describe("createHooks", () => {
             expect(mockOperations.remove).toHaveBeenCalledWith("user1");
         });
     });
+
+    describe("optimistic mutations", () => {
+        const user1: TestUser = {
+            id: "user1",
+            name: "User 1",
+            email: "user1@example.com",
+        };
+        const user2: TestUser = {
+            id: "user2",
+            name: "User 2",
+            email: "user2@example.com",
+        };
+        let queryClient: QueryClient;
+        let rows: Map<string, TestUser>;
+
+        beforeEach(() => {
+            queryClient = new QueryClient({
+                defaultOptions: {
+                    queries: { retry: false },
+                    mutations: { retry: false },
+                },
+            });
+            rows = new Map([
+                [user1.id, user1],
+                [user2.id, user2],
+            ]);
+            config.normalizer = new EntityNormalizer<TestUser>();
+            config.getTable = () =>
+                ({
+                    get: vi.fn(async (id: string) => rows.get(id)),
+                    put: vi.fn(async (row: TestUser) => {
+                        rows.set(row.id, row);
+                    }),
+                    delete: vi.fn(async (id: string) => {
+                        rows.delete(id);
+                    }),
+                }) as any;
+
+            queryClient.setQueryData(mockQueryKeys.detail("user1"), user1);
+            queryClient.setQueryData(mockQueryKeys.list(), [user1, user2]);
+            queryClient.setQueryData<InfiniteListData<TestUser>>(
+                mockQueryKeys.infinite(),
+                {
+                    pages: [{ data: [user1], meta: {} }],
+                    pageParams: [undefined],
+                }
+            );
+        });
+
+        /** Returns a promise the test settles to finish the server request */
+        function deferred<R>() {
+            let resolve: (value: R) => void = () => {};
+            let reject: (error: Error) => void = () => {};
+            const promise = new Promise<R>((res, rej) => {
+                resolve = res;
+                reject = rej;
+            });
+            return { promise, resolve, reject };
+        }
+
+        it("should patch detail, lists and Dexie before the server responds", async () => {
+            const request = deferred<TestUser>();
+            vi.mocked(mockOperations.update).mockReturnValue(request.promise);
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useUpdate({ optimistic: true }),
+                { wrapper: createWrapper(queryClient) }
+            );
+
+            result.current.mutate({ id: "user1", data: { name: "Renamed" } });
+
+            await waitFor(() =>
+                expect(rows.get("user1")?.name).toBe("Renamed")
+            );
+            expect(
+                queryClient.getQueryData<TestUser>(
+                    mockQueryKeys.detail("user1")
+                )?.name
+            ).toBe("Renamed");
+            expect(
+                queryClient.getQueryData<TestUser[]>(mockQueryKeys.list())
+            ).toEqual([{ ...user1, name: "Renamed" }, user2]);
+            expect(
+                queryClient.getQueryData<InfiniteListData<TestUser>>(
+                    mockQueryKeys.infinite()
+                )?.pages[0].data
+            ).toEqual([{ ...user1, name: "Renamed" }]);
+
+            request.resolve({ ...user1, name: "Renamed" });
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+        });
+
+        it("should roll back both caches when the update fails", async () => {
+            vi.mocked(mockOperations.update).mockRejectedValue(
+                new Error("Conflict")
+            );
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useUpdate({ optimistic: true }),
+                { wrapper: createWrapper(queryClient) }
+            );
+
+            result.current.mutate({ id: "user1", data: { name: "Renamed" } });
+
+            await waitFor(() => expect(result.current.isError).toBe(true));
+            expect(rows.get("user1")).toEqual(user1);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.detail("user1"))
+            ).toEqual(user1);
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual([
+                user1,
+                user2,
+            ]);
+        });
+
+        it("should remove deleted items and restore them on failure", async () => {
+            const request = deferred<void>();
+            vi.mocked(mockOperations.remove).mockReturnValue(request.promise);
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useDelete({ optimistic: true }),
+                { wrapper: createWrapper(queryClient) }
+            );
+
+            result.current.mutate("user1");
+
+            await waitFor(() => expect(rows.has("user1")).toBe(false));
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual([
+                user2,
+            ]);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.detail("user1"))
+            ).toBeUndefined();
+
+            request.reject(new Error("Forbidden"));
+
+            await waitFor(() => expect(result.current.isError).toBe(true));
+            expect(rows.get("user1")).toEqual(user1);
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual([
+                user1,
+                user2,
+            ]);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.detail("user1"))
+            ).toEqual(user1);
+        });
+
+        it("should append created items to matching lists only", async () => {
+            const user3: TestUser = {
+                id: "user3",
+                name: "User 3",
+                email: "user3@example.com",
+            };
+            queryClient.setQueryData(mockQueryKeys.list({ name: "Other" }), []);
+            const request = deferred<TestUser>();
+            vi.mocked(mockOperations.create).mockReturnValue(request.promise);
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(
+                () => hooks.useCreate({ optimistic: true }),
+                { wrapper: createWrapper(queryClient) }
+            );
+
+            result.current.mutate(user3);
+
+            await waitFor(() => expect(rows.has("user3")).toBe(true));
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual([
+                user1,
+                user2,
+                user3,
+            ]);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.list({ name: "Other" }))
+            ).toEqual([]);
+
+            request.reject(new Error("Offline"));
+
+            await waitFor(() => expect(result.current.isError).toBe(true));
+            expect(rows.has("user3")).toBe(false);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.detail("user3"))
+            ).toBeUndefined();
+            expect(queryClient.getQueryData(mockQueryKeys.list())).toEqual([
+                user1,
+                user2,
+            ]);
+        });
+
+        it("should leave caches untouched without the optimistic option", async () => {
+            const request = deferred<TestUser>();
+            vi.mocked(mockOperations.update).mockReturnValue(request.promise);
+
+            const hooks = createHooks(config);
+            const { result } = renderHook(() => hooks.useUpdate(), {
+                wrapper: createWrapper(queryClient),
+            });
+
+            result.current.mutate({ id: "user1", data: { name: "Renamed" } });
+
+            await waitFor(() => expect(result.current.isPending).toBe(true));
+            expect(rows.get("user1")).toEqual(user1);
+            expect(
+                queryClient.getQueryData(mockQueryKeys.detail("user1"))
+            ).toEqual(user1);
+
+            request.resolve({ ...user1, name: "Renamed" });
+            await waitFor(() => expect(result.current.isSuccess).toBe(true));
+        });
+    });
 });
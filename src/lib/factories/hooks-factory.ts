@@ -6,21 +6,45 @@
  */
 
 import {
+    hashKey,
+    type QueryClient,
+    type QueryKey,
+    type UseQueryResult,
+    useInfiniteQuery,
     useMutation,
     useQuery,
     useQueryClient,
     UseQueryOptions,
 } from "@tanstack/react-query";
-import type { Table } from "dexie";
+import { type IndexableType, liveQuery, type Table } from "dexie";
+import { useEffect, useMemo, useState } from "react";
 
 import type { EntityNormalizer } from "../core/entity-normalizer";
+import {
+    buildDexieKey,
+    getEntityId,
+    hasEntityKey,
+    serializeId,
+} from "../core/id-utils";
+import { readMatchingRows } from "../core/indexes";
 import type { URLBuilder } from "../core/url-builder";
 import type {
+    IndexDefinition,
+    InfiniteListData,
+    InfiniteListOptions,
     ListParams,
+    MutationHookOptions,
+    Page,
+    PageParam,
+    PaginationConfig,
     QueryKeys,
     ResourceHooks,
     ResourceOperations,
 } from "../types";
+import { filterEntities } from "../utils/filter-matcher";
+import { shapeEntities } from "../utils/list-shaping";
+import { getListParams, updateListData } from "../utils/optimistic";
+
 /**
  * Helper: Determines if all values in params object are defined.
  * Used for auto-enabling list queries.
@@ -30,6 +54,70 @@ function hasAllParamsDefined(params?: ListParams): boolean {
     return Object.values(params).every((value) => value !== undefined);
 }
 
+/**
+ * Helper: Subscribes to a Dexie live query while mounted and enabled.
+ *
+ * The querier re-runs whenever a write (from any code path) touches the rows
+ * it read. Subscribing waits for the table to be initialized.
+ *
+ * @param key - Identifies the querier's inputs (undefined = disabled)
+ * @param querier - Reads from Dexie (must only await Dexie calls)
+ * @param whenReady - Resolves once the table exists
+ * @param onError - Called when the querier fails
+ * @returns The querier's latest result for this key, if any
+ */
+function useLiveQuery<R>(
+    key: string | undefined,
+    querier: () => Promise<R>,
+    whenReady: () => Promise<void>,
+    onError: (error: unknown) => void
+): { loaded: boolean; value?: R } {
+    const [result, setResult] = useState<{ key: string; value: R }>();
+
+    useEffect(() => {
+        if (key === undefined) {
+            return undefined;
+        }
+
+        let active = true;
+        let subscription: { unsubscribe: () => void } | undefined;
+        whenReady().then(
+            () => {
+                if (!active) return;
+                subscription = liveQuery(querier).subscribe({
+                    next: (value) => setResult({ key, value }),
+                    error: onError,
+                });
+            },
+            () => {
+                // The network query reports initialization failures
+            }
+        );
+
+        return () => {
+            active = false;
+            subscription?.unsubscribe();
+        };
+        // The key covers every input of the querier
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [key]);
+
+    // Results of a previous key (e.g., another ID) are never returned
+    return result && result.key === key
+        ? { loaded: true, value: result.value }
+        : { loaded: false };
+}
+
+/**
+ * State captured before an optimistic mutation, used to roll it back on error.
+ */
+interface OptimisticSnapshot<T> {
+    /** Query data by key (undefined = the query had no data) */
+    queries: Array<[QueryKey, unknown]>;
+    /** Dexie row by key (undefined value = the row did not exist) */
+    row?: { key: IndexableType; value: T | undefined };
+}
+
 /**
  * Configuration for creating resource hooks.
  */
@@ -50,6 +138,14 @@ export interface HooksConfig<T, ID> {
     queryKeys: QueryKeys<T, ID>;
     /** Resource operations (for delegation) */
     operations: ResourceOperations<T, ID>;
+    /** Optional pagination contract (page size of the cached first page) */
+    pagination?: PaginationConfig;
+    /** Optional secondary indexes used to read matching rows (live lists, cached first pages) */
+    indexes?: IndexDefinition[];
+    /** Resolves once the Dexie table exists (live hooks subscribe after it) */
+    whenReady?: () => Promise<void>;
+    /** Optional QueryClient to use instead of the one from QueryClientProvider */
+    queryClient?: QueryClient;
 }
 
 /**
@@ -61,10 +157,19 @@ export interface HooksConfig<T, ID> {
  * 3. Update Dexie with fresh data
  * 4. TanStack Query triggers re-render with fresh data
  *
- * All mutation hooks automatically invalidate related queries.
+ * Query hooks pass TanStack Query's AbortSignal through to the operations,
+ * so unmounted or superseded queries cancel their requests.
+ *
+ * All mutation hooks automatically invalidate related queries. Passing
+ * `{ optimistic: true }` applies the change to cached queries and Dexie
+ * immediately and rolls it back if the request fails.
+ *
+ * Live hooks (`useLiveGetById`, `useLiveList`) also subscribe to Dexie, so
+ * writes made directly to the table show up without a refetch.
  *
  * @param config - Hooks configuration
- * @returns Resource hooks (useGetById, useList, useCreate, useUpdate, useDelete)
+ * @returns Resource hooks (useGetById, useList, useLiveGetById, useLiveList,
+ *   useInfiniteList, useCreate, useUpdate, useDelete)
  *
  * @example
  * ```tsx
@@ -98,9 +203,123 @@ export interface HooksConfig<T, ID> {
 export function createHooks<T, ID>(
     config: HooksConfig<T, ID>
 ): ResourceHooks<T, ID> {
-    const { queryKeys, operations } = config;
+    const {
+        getTable,
+        keyFields,
+        normalizer,
+        queryKeys,
+        operations,
+        pagination,
+        indexes,
+        whenReady = () => Promise.resolve(),
+    } = config;
+
+    /**
+     * Logs failed live reads; the hooks keep serving the network query's data.
+     */
+    const logLiveError = (error: unknown): void => {
+        console.error(`[Query] Failed to read live ${config.name}: `, error);
+    };
+
+    /**
+     * Replaces a query's data with the live Dexie result once it is loaded.
+     * The result is proxied rather than copied: copying would read every
+     * property and defeat TanStack's tracking of the properties a component uses.
+     */
+    const withLiveData = <R>(
+        query: UseQueryResult<R>,
+        live: { loaded: boolean; value?: R }
+    ): UseQueryResult<R> =>
+        live.loaded
+            ? new Proxy(query, {
+                  get: (target, property) =>
+                      property === "data"
+                          ? live.value
+                          : Reflect.get(target, property),
+              })
+            : query;
+
+    /**
+     * Checks whether an item has the given ID.
+     */
+    const isSameEntity = (item: T, id: ID): boolean =>
+        serializeId(getEntityId<T, ID>(item, keyFields), keyFields) ===
+        serializeId(id, keyFields);
 
-    return {
+    /**
+     * Cancels in-flight list (and detail) fetches so they can't overwrite the
+     * optimistic change, then captures the data a rollback needs to restore.
+     */
+    const takeSnapshot = async (
+        queryClient: QueryClient,
+        id?: ID
+    ): Promise<OptimisticSnapshot<T>> => {
+        await queryClient.cancelQueries({ queryKey: queryKeys.lists() });
+        const queries: Array<[QueryKey, unknown]> = queryClient.getQueriesData({
+            queryKey: queryKeys.lists(),
+        });
+        if (id === undefined) {
+            return { queries };
+        }
+
+        const detailKey = queryKeys.detail(id);
+        await queryClient.cancelQueries({ queryKey: detailKey, exact: true });
+        queries.push([detailKey, queryClient.getQueryData(detailKey)]);
+
+        const key = buildDexieKey(id, keyFields) as IndexableType;
+        const value = await getTable().get(key as any);
+        return { queries, row: { key, value } };
+    };
+
+    /**
+     * Restores query data and the Dexie row captured by takeSnapshot.
+     */
+    const restoreSnapshot = async (
+        queryClient: QueryClient,
+        snapshot: OptimisticSnapshot<T>
+    ): Promise<void> => {
+        snapshot.queries.forEach(([queryKey, data]) => {
+            if (data === undefined) {
+                // The query had no data before the mutation
+                queryClient.removeQueries({ queryKey, exact: true });
+            } else {
+                queryClient.setQueryData(queryKey, data);
+            }
+        });
+
+        if (snapshot.row) {
+            const tbl = getTable();
+            if (snapshot.row.value === undefined) {
+                await tbl.delete(snapshot.row.key as any);
+            } else {
+                await tbl.put(snapshot.row.value);
+            }
+        }
+    };
+
+    /**
+     * Applies an update to the items of every cached list query (plain and infinite).
+     */
+    const updateListQueries = (
+        queryClient: QueryClient,
+        update: (items: T[], isLast: boolean, params?: ListParams) => T[]
+    ): void => {
+        queryClient
+            .getQueriesData<T[] | InfiniteListData<T>>({
+                queryKey: queryKeys.lists(),
+            })
+            .forEach(([queryKey, data]) => {
+                const params = getListParams(queryKey);
+                queryClient.setQueryData(
+                    queryKey,
+                    updateListData(data, (items, isLast) =>
+                        update(items, isLast, params)
+                    )
+                );
+            });
+    };
+
+    const hooks: ResourceHooks<T, ID> = {
         /**
          * Hook to fetch a single item by ID with SWR behavior.
          *
@@ -125,22 +344,25 @@ export function createHooks<T, ID>(
                     ? options.enabled
                     : id !== undefined;
 
-            return useQuery({
-                queryKey:
-                    id !== undefined ? queryKeys.detail(id) : ["disabled"],
-                queryFn: async () => {
-                    if (id === undefined) return undefined;
-                    const result = await operations.getById(id);
-                    return result ?? undefined;
+            return useQuery(
+                {
+                    queryKey:
+                        id !== undefined ? queryKeys.detail(id) : ["disabled"],
+                    queryFn: async ({ signal }) => {
+                        if (id === undefined) return undefined;
+                        const result = await operations.getById(id, { signal });
+                        return result ?? undefined;
+                    },
+                    // Return cached data immediately while fetching
+                    staleTime: 0,
+                    refetchOnMount: true,
+                    // Spread user options (allows overriding staleTime, refetchOnMount, etc.)
+                    ...options,
+                    // Apply enabled after spread to ensure it takes precedence
+                    enabled: shouldEnable,
                 },
-                // Return cached data immediately while fetching
-                staleTime: 0,
-                refetchOnMount: true,
-                // Spread user options (allows overriding staleTime, refetchOnMount, etc.)
-                ...options,
-                // Apply enabled after spread to ensure it takes precedence
-                enabled: shouldEnable,
-            });
+                config.queryClient
+            );
         },
 
         /**
@@ -164,97 +386,341 @@ export function createHooks<T, ID>(
                     ? options.enabled
                     : hasAllParamsDefined(params);
 
-            return useQuery({
-                // eslint-disable-next-line @tanstack/query/exhaustive-deps
-                queryKey: queryKeys.list(params),
-                queryFn: async () => {
-                    return operations.list(params);
+            return useQuery(
+                {
+                    // eslint-disable-next-line @tanstack/query/exhaustive-deps
+                    queryKey: queryKeys.list(params),
+                    queryFn: async ({ signal }) => {
+                        return operations.list(params, { signal });
+                    },
+                    // Return cached data immediately while fetching
+                    staleTime: 0,
+                    refetchOnMount: true,
+                    // Spread user options (allows overriding staleTime, refetchOnMount, etc.)
+                    ...options,
+                    // Apply enabled after spread to ensure it takes precedence
+                    enabled: shouldEnable,
                 },
-                // Return cached data immediately while fetching
-                staleTime: 0,
-                refetchOnMount: true,
-                // Spread user options (allows overriding staleTime, refetchOnMount, etc.)
-                ...options,
-                // Apply enabled after spread to ensure it takes precedence
-                enabled: shouldEnable,
-            });
+                config.queryClient
+            );
+        },
+
+        /**
+         * Hook to read a single item live from Dexie, revalidated by the network.
+         *
+         * Runs `useGetById` for the fetch and loading state, and replaces its `data`
+         * with the Dexie row (undefined once deleted) whenever the row is written,
+         * including by direct `resource.table` writes.
+         */
+        useLiveGetById: (id, options) => {
+            const query = hooks.useGetById(id, options);
+            const enabled =
+                options?.enabled !== undefined
+                    ? options.enabled
+                    : id !== undefined;
+
+            const live = useLiveQuery(
+                enabled && id !== undefined
+                    ? hashKey(queryKeys.detail(id))
+                    : undefined,
+                () =>
+                    getTable().get(
+                        buildDexieKey(id as ID, keyFields) as any
+                    ) as Promise<T | undefined>,
+                whenReady,
+                logLiveError
+            );
+            return withLiveData(query, live);
+        },
+
+        /**
+         * Hook to read a list live from Dexie, revalidated by the network.
+         *
+         * Runs `useList` for the fetch and loading state, and replaces its `data`
+         * with the Dexie rows matching the params (same filtering, sorting and
+         * projection as cached lists) whenever the table changes.
+         */
+        useLiveList: (params, options) => {
+            const query = hooks.useList(params, options);
+            const enabled =
+                options?.enabled !== undefined
+                    ? options.enabled
+                    : hasAllParamsDefined(params);
+
+            const live = useLiveQuery(
+                enabled ? hashKey(queryKeys.list(params)) : undefined,
+                async () =>
+                    shapeEntities(
+                        await readMatchingRows(getTable(), indexes, params),
+                        params,
+                        keyFields
+                    ),
+                whenReady,
+                logLiveError
+            );
+            return withLiveData(query, live);
+        },
+
+        /**
+         * Hook to fetch a list page by page with SWR behavior for the first page.
+         *
+         * On first load, matching rows from Dexie (up to the page size) are shown
+         * as placeholder data while the first network page loads. Later pages and refetches
+         * go to the network via `listPage`, which also writes them to Dexie.
+         *
+         * **Auto-enabling:** Query is automatically enabled when ALL params are defined,
+         * unless explicitly overridden via options.enabled.
+         */
+        useInfiniteList: (
+            params?: ListParams,
+            options?: InfiniteListOptions<T>
+        ) => {
+            const queryClientHook = useQueryClient(config.queryClient);
+            const queryKey = queryKeys.infinite(params);
+
+            // Determine if query should be enabled
+            const shouldEnable =
+                options?.enabled !== undefined
+                    ? options.enabled
+                    : hasAllParamsDefined(params);
+
+            // Until the query has data, cached rows stand in for the first page.
+            // They are read outside the fetch so the query cache only ever holds
+            // network pages.
+            const isFirstLoad =
+                shouldEnable &&
+                queryClientHook.getQueryData(queryKey) === undefined;
+            const cached = useLiveQuery(
+                isFirstLoad ? hashKey(queryKey) : undefined,
+                async () =>
+                    shapeEntities(
+                        await readMatchingRows(getTable(), indexes, params),
+                        params,
+                        keyFields
+                    ).slice(0, pagination?.pageSize),
+                whenReady,
+                logLiveError
+            );
+            const placeholderData = useMemo<InfiniteListData<T> | undefined>(
+                () =>
+                    cached.value && cached.value.length > 0
+                        ? {
+                              pages: [{ data: cached.value, meta: {} }],
+                              pageParams: [undefined],
+                          }
+                        : undefined,
+                [cached.value]
+            );
+
+            return useInfiniteQuery(
+                {
+                    // eslint-disable-next-line @tanstack/query/exhaustive-deps
+                    queryKey,
+                    queryFn: async ({ pageParam, signal }) => {
+                        return operations.listPage(params, pageParam, {
+                            signal,
+                        });
+                    },
+                    initialPageParam: undefined as PageParam | undefined,
+                    getNextPageParam: (lastPage: Page<T>) =>
+                        lastPage.nextPageParam,
+                    placeholderData,
+                    // Return cached data immediately while fetching
+                    staleTime: 0,
+                    refetchOnMount: true,
+                    // Spread user options (allows overriding staleTime, refetchOnMount, etc.)
+                    ...options,
+                    // Apply enabled after spread to ensure it takes precedence
+                    enabled: shouldEnable,
+                },
+                config.queryClient
+            );
         },
 
         /**
          * Hook for creating items.
          *
          * Automatically invalidates list queries after successful creation.
+         * In optimistic mode, the item is added to matching cached lists (and, if it
+         * already has its key, to the detail query and Dexie) until the server responds.
          */
-        useCreate: () => {
-            const queryClientHook = useQueryClient();
+        useCreate: (options?: MutationHookOptions) => {
+            const queryClientHook = useQueryClient(config.queryClient);
 
-            return useMutation({
-                mutationFn: async (data: Omit<T, keyof ID>) => {
-                    return operations.create(data as any);
-                },
-                onSuccess: () => {
-                    // Invalidate all list queries for this resource
-                    queryClientHook.invalidateQueries({
-                        queryKey: queryKeys.lists(),
-                    });
+            return useMutation(
+                {
+                    mutationFn: async (data: Omit<T, keyof ID>) => {
+                        return operations.create(data as any);
+                    },
+                    onMutate: async (data) => {
+                        if (!options?.optimistic) return undefined;
+
+                        const item = data as T;
+                        const id = hasEntityKey(item, keyFields)
+                            ? getEntityId<T, ID>(item, keyFields)
+                            : undefined;
+                        const snapshot = await takeSnapshot(
+                            queryClientHook,
+                            id
+                        );
+
+                        updateListQueries(
+                            queryClientHook,
+                            (items, isLast, params) =>
+                                isLast &&
+                                filterEntities([item], params).length > 0
+                                    ? [...items, item]
+                                    : items
+                        );
+                        if (id !== undefined) {
+                            queryClientHook.setQueryData(
+                                queryKeys.detail(id),
+                                item
+                            );
+                            await getTable().put(normalizer.normalize(item));
+                        }
+
+                        return snapshot;
+                    },
+                    onError: async (_error, _data, snapshot) => {
+                        if (snapshot) {
+                            await restoreSnapshot(queryClientHook, snapshot);
+                        }
+                    },
+                    onSuccess: () => {
+                        // Invalidate all list queries for this resource
+                        queryClientHook.invalidateQueries({
+                            queryKey: queryKeys.lists(),
+                        });
+                    },
                 },
-            });
+                config.queryClient
+            );
         },
 
         /**
          * Hook for updating items.
          *
          * Automatically invalidates affected queries after successful update.
+         * In optimistic mode, the detail query, cached lists and the Dexie row are
+         * patched until the server responds.
          */
-        useUpdate: () => {
-            const queryClientHook = useQueryClient();
-
-            return useMutation({
-                mutationFn: async ({
-                    id,
-                    data,
-                }: {
-                    id: ID;
-                    data: Partial<Omit<T, keyof ID>>;
-                }) => {
-                    return operations.update(id, data);
-                },
-                onSuccess: (_, { id }) => {
-                    // Invalidate detail query for this item
-                    queryClientHook.invalidateQueries({
-                        queryKey: queryKeys.detail(id),
-                    });
-                    // Invalidate all list queries
-                    queryClientHook.invalidateQueries({
-                        queryKey: queryKeys.lists(),
-                    });
+        useUpdate: (options?: MutationHookOptions) => {
+            const queryClientHook = useQueryClient(config.queryClient);
+
+            return useMutation(
+                {
+                    mutationFn: async ({
+                        id,
+                        data,
+                    }: {
+                        id: ID;
+                        data: Partial<Omit<T, keyof ID>>;
+                    }) => {
+                        return operations.update(id, data);
+                    },
+                    onMutate: async ({ id, data }) => {
+                        if (!options?.optimistic) return undefined;
+
+                        const snapshot = await takeSnapshot(
+                            queryClientHook,
+                            id
+                        );
+                        const patch = (item: T): T => ({ ...item, ...data });
+
+                        queryClientHook.setQueryData<T>(
+                            queryKeys.detail(id),
+                            (item) => item && patch(item)
+                        );
+                        updateListQueries(queryClientHook, (items) =>
+                            items.map((item) =>
+                                isSameEntity(item, id) ? patch(item) : item
+                            )
+                        );
+                        if (snapshot.row?.value) {
+                            await getTable().put(
+                                normalizer.normalize(patch(snapshot.row.value))
+                            );
+                        }
+
+                        return snapshot;
+                    },
+                    onError: async (_error, _variables, snapshot) => {
+                        if (snapshot) {
+                            await restoreSnapshot(queryClientHook, snapshot);
+                        }
+                    },
+                    onSuccess: (_, { id }) => {
+                        // Invalidate detail query for this item
+                        queryClientHook.invalidateQueries({
+                            queryKey: queryKeys.detail(id),
+                        });
+                        // Invalidate all list queries
+                        queryClientHook.invalidateQueries({
+                            queryKey: queryKeys.lists(),
+                        });
+                    },
                 },
-            });
+                config.queryClient
+            );
         },
 
         /**
          * Hook for deleting items.
          *
          * Automatically invalidates affected queries after successful deletion.
+         * In optimistic mode, the item is removed from cached lists, the detail
+         * query and Dexie until the server responds.
          */
-        useDelete: () => {
-            const queryClientHook = useQueryClient();
+        useDelete: (options?: MutationHookOptions) => {
+            const queryClientHook = useQueryClient(config.queryClient);
 
-            return useMutation({
-                mutationFn: async (id: ID) => {
-                    return operations.remove(id);
-                },
-                onSuccess: (_, id) => {
-                    // Invalidate detail query for this item
-                    queryClientHook.invalidateQueries({
-                        queryKey: queryKeys.detail(id),
-                    });
-                    // Invalidate all list queries
-                    queryClientHook.invalidateQueries({
-                        queryKey: queryKeys.lists(),
-                    });
+            return useMutation(
+                {
+                    mutationFn: async (id: ID) => {
+                        return operations.remove(id);
+                    },
+                    onMutate: async (id) => {
+                        if (!options?.optimistic) return undefined;
+
+                        const snapshot = await takeSnapshot(
+                            queryClientHook,
+                            id
+                        );
+
+                        queryClientHook.removeQueries({
+                            queryKey: queryKeys.detail(id),
+                            exact: true,
+                        });
+                        updateListQueries(queryClientHook, (items) =>
+                            items.filter((item) => !isSameEntity(item, id))
+                        );
+                        await getTable().delete(
+                            buildDexieKey(id, keyFields) as any
+                        );
+
+                        return snapshot;
+                    },
+                    onError: async (_error, _id, snapshot) => {
+                        if (snapshot) {
+                            await restoreSnapshot(queryClientHook, snapshot);
+                        }
+                    },
+                    onSuccess: (_, id) => {
+                        // Invalidate detail query for this item
+                        queryClientHook.invalidateQueries({
+                            queryKey: queryKeys.detail(id),
+                        });
+                        // Invalidate all list queries
+                        queryClientHook.invalidateQueries({
+                            queryKey: queryKeys.lists(),
+                        });
+                    },
                 },
-            });
+                config.queryClient
+            );
         },
     };
+
+    return hooks;
 }
@@ -4,11 +4,15 @@
  * Tests the raw CRUD operations for resources with SWR behavior.
  */
 
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { Table } from "dexie";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import Dexie, { type Table } from "dexie";
 
-import { ApiError, apiRequest } from "../api";
+import { ApiError, apiRequest, NetworkError } from "../api";
+import type { CacheSweeper } from "../core/cache-sweeper";
 import type { EntityNormalizer } from "../core/entity-normalizer";
+import type { Outbox } from "../core/outbox";
+import { bareResponse, createEnvelopeAdapter } from "../core/response-adapter";
+import { SYNC_SCHEMA, SYNC_TABLE, SyncCursors } from "../core/sync-cursors";
 import type { URLBuilder } from "../core/url-builder";
 import type { ListParams } from "../types";
 import { createOperations, type OperationsConfig } from "./operations-factory";
@@ -23,7 +27,8 @@ vi.mock("../api", async () => {
 });
 
 // Mock buildDexieKey
-vi.mock("../core/id-utils", () => ({
+vi.mock("../core/id-utils", async () => ({
+    ...(await vi.importActual<object>("../core/id-utils")),
     buildDexieKey: vi.fn((id: unknown, keyFields?: string[]) => {
         if (
             keyFields &&
@@ -68,6 +73,7 @@ describe("createOperations", () => {
             get: vi.fn(),
             put: vi.fn(),
             bulkPut: vi.fn(),
+            bulkDelete: vi.fn(),
             delete: vi.fn(),
             toArray: vi.fn(),
         } as unknown as Table<TestUser, string>;
@@ -122,7 +128,7 @@ describe("createOperations", () => {
             // Should return cached data (not wait for network)
             expect(result).toEqual(cachedUser);
             expect(mockTable.get).toHaveBeenCalledWith("user1");
-            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1");
+            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1", {});
         });
 
         it("should fetch from network and update Dexie when cache is empty", async () => {
@@ -141,7 +147,7 @@ describe("createOperations", () => {
             // Should wait for network and return fresh data
             expect(result).toEqual(freshUser);
             expect(mockTable.get).toHaveBeenCalledWith("user1");
-            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1");
+            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1", {});
             expect(mockTable.put).toHaveBeenCalledWith(freshUser);
         });
 
@@ -220,7 +226,7 @@ describe("createOperations", () => {
             // Should return cached data (not wait for network)
             expect(result).toEqual(cachedUsers);
             expect(mockTable.toArray).toHaveBeenCalled();
-            expect(apiRequest).toHaveBeenCalledWith("/api/users");
+            expect(apiRequest).toHaveBeenCalledWith("/api/users", {});
         });
 
         it("should fetch from network with params and update Dexie", async () => {
@@ -241,7 +247,8 @@ describe("createOperations", () => {
                 params
             );
             expect(apiRequest).toHaveBeenCalledWith(
-                "/api/users?role=admin&active=true"
+                "/api/users?role=admin&active=true",
+                {}
             );
             expect(mockTable.bulkPut).toHaveBeenCalledWith(freshUsers);
         });
@@ -469,6 +476,589 @@ describe("createOperations", () => {
         });
     });
 
+    describe("indexes", () => {
+        interface TestNote {
+            id: string;
+            spaceId: string;
+            status: string;
+            tags: string[];
+        }
+
+        const notes: TestNote[] = [
+            { id: "1", spaceId: "s1", status: "open", tags: ["work"] },
+            { id: "2", spaceId: "s1", status: "done", tags: ["home"] },
+            { id: "3", spaceId: "s2", status: "open", tags: ["work", "home"] },
+        ];
+
+        async function createNotesTable() {
+            const db = new Dexie(`IndexesTestDB-${Math.random()}`);
+            db.version(1).stores({
+                notes: "id, status, [spaceId+status], *tags",
+            });
+            await db.open();
+            const table = db.table<TestNote, string>("notes");
+            await table.bulkPut(notes);
+            return { db, table };
+        }
+
+        it("should answer filters from a secondary index", async () => {
+            const { db, table } = await createNotesTable();
+            const toArray = vi.spyOn(table, "toArray");
+            vi.mocked(apiRequest).mockImplementation(
+                () => new Promise(() => {})
+            );
+
+            const operations = createOperations<TestNote, string>({
+                ...(config as unknown as OperationsConfig<TestNote, string>),
+                getTable: () => table,
+                indexes: ["status", ["spaceId", "status"]],
+            });
+
+            const result = await operations.list({
+                spaceId: "s1",
+                status: "open",
+            });
+
+            expect(result.map((note) => note.id)).toEqual(["1"]);
+            expect(toArray).not.toHaveBeenCalled();
+            await db.delete();
+        });
+
+        it("should match array elements through a multi-entry index", async () => {
+            const { db, table } = await createNotesTable();
+            vi.mocked(apiRequest).mockImplementation(
+                () => new Promise(() => {})
+            );
+
+            const operations = createOperations<TestNote, string>({
+                ...(config as unknown as OperationsConfig<TestNote, string>),
+                getTable: () => table,
+                indexes: [{ fields: "tags", multiEntry: true }],
+            });
+
+            const result = await operations.list({
+                tags: "work",
+                status: "open",
+            });
+
+            expect(result.map((note) => note.id)).toEqual(["1", "3"]);
+            await db.delete();
+        });
+    });
+
+    describe("reconciliation", () => {
+        interface TestNote {
+            id: string;
+            status: string;
+        }
+
+        let db: Dexie;
+        let table: Table<TestNote, string>;
+        let notesConfig: OperationsConfig<TestNote, string>;
+
+        beforeEach(async () => {
+            db = new Dexie(`ReconcileTestDB-${Math.random()}`);
+            db.version(1).stores({ notes: "id" });
+            await db.open();
+            table = db.table("notes");
+            await table.bulkPut([
+                { id: "1", status: "open" },
+                { id: "2", status: "open" },
+                { id: "3", status: "done" },
+            ]);
+            notesConfig = {
+                ...(config as unknown as OperationsConfig<TestNote, string>),
+                getTable: () => table,
+                reconcile: true,
+            };
+        });
+
+        afterEach(async () => {
+            await db.delete();
+        });
+
+        async function storedIds() {
+            return (await table.toCollection().primaryKeys()).sort();
+        }
+
+        it("should remove cached matches missing from a complete response", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", status: "open" }],
+            });
+
+            const operations = createOperations(notesConfig);
+            await operations.list({ status: "open" });
+
+            // Rows outside the query's params are untouched
+            await vi.waitFor(async () =>
+                expect(await storedIds()).toEqual(["1", "3"])
+            );
+        });
+
+        it("should keep rows when the response reports more pages", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", status: "open" }],
+                meta: { nextCursor: "next" },
+            });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations(notesConfig);
+            await operations.list({ status: "open" });
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await storedIds()).toEqual(["1", "2", "3"]);
+        });
+
+        it("should keep rows when reconciliation is disabled", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations({
+                ...notesConfig,
+                reconcile: false,
+            });
+            await operations.list();
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await storedIds()).toEqual(["1", "2", "3"]);
+        });
+
+        it("should keep rows of paged responses without metadata", async () => {
+            // The server pages by default and doesn't report it
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", status: "open" }],
+            });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations({
+                ...notesConfig,
+                pagination: { type: "offset", pageSize: 1 },
+            });
+            await operations.list({ sort: "id" });
+            await operations.list({ status: "open", limit: 1 });
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalledTimes(2));
+            expect(await storedIds()).toEqual(["1", "2", "3"]);
+        });
+
+        it("should not reconcile unless enabled", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations({
+                ...notesConfig,
+                reconcile: undefined,
+            });
+            await operations.list();
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await storedIds()).toEqual(["1", "2", "3"]);
+        });
+
+        it("should keep rows written after the request was sent", async () => {
+            let respond!: (response: { data: TestNote[] }) => void;
+            vi.mocked(apiRequest).mockReturnValue(
+                new Promise((resolve) => {
+                    respond = resolve;
+                })
+            );
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations(notesConfig);
+            await operations.list({ status: "done" });
+            await table.put({ id: "4", status: "done" });
+            respond({ data: [] });
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await storedIds()).toEqual(["1", "2", "4"]);
+        });
+
+        it("should not reconcile while mutations are queued", async () => {
+            const outbox = {
+                hasPending: vi.fn().mockResolvedValue(true),
+                registerHandler: vi.fn(),
+            } as unknown as Outbox;
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations({ ...notesConfig, outbox });
+            await operations.list();
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await storedIds()).toEqual(["1", "2", "3"]);
+        });
+    });
+
+    describe("sort and fields", () => {
+        interface TestNote {
+            id: string;
+            title: string;
+            rank: number;
+        }
+
+        let db: Dexie;
+        let table: Table<TestNote, string>;
+        let notesConfig: OperationsConfig<TestNote, string>;
+
+        beforeEach(async () => {
+            db = new Dexie(`ShapeTestDB-${Math.random()}`);
+            db.version(1).stores({ notes: "id" });
+            await db.open();
+            table = db.table("notes");
+            await table.bulkPut([
+                { id: "1", title: "Low", rank: 1 },
+                { id: "2", title: "Top", rank: 9 },
+                { id: "3", title: "Mid", rank: 5 },
+            ]);
+            notesConfig = {
+                ...(config as unknown as OperationsConfig<TestNote, string>),
+                getTable: () => table,
+            };
+        });
+
+        afterEach(async () => {
+            await db.delete();
+        });
+
+        it("should sort and project cached lists like the API", async () => {
+            vi.mocked(apiRequest).mockReturnValue(new Promise(() => {}));
+
+            const operations = createOperations(notesConfig);
+            const notes = await operations.list({
+                sort: "-rank",
+                fields: "title",
+            });
+
+            expect(notes).toEqual([
+                { id: "2", title: "Top" },
+                { id: "3", title: "Mid" },
+                { id: "1", title: "Low" },
+            ]);
+        });
+
+        it("should merge projected responses into the cached rows", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "2", title: "Renamed" }],
+            });
+            const bulkPut = vi.spyOn(table, "bulkPut");
+
+            const operations = createOperations({
+                ...notesConfig,
+                reconcile: false,
+            });
+            await operations.list({ fields: "title" });
+
+            await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+            expect(await table.get("2")).toEqual({
+                id: "2",
+                title: "Renamed",
+                rank: 9,
+            });
+        });
+    });
+
+    describe("sync", () => {
+        interface TestNote {
+            id: string;
+            title: string;
+            updatedAt: string;
+        }
+
+        let db: Dexie;
+        let table: Table<TestNote, string>;
+        let syncCursors: SyncCursors;
+        let onSynced: ReturnType<typeof vi.fn>;
+        let notesConfig: OperationsConfig<TestNote, string>;
+
+        beforeEach(async () => {
+            db = new Dexie(`SyncTestDB-${Math.random()}`);
+            db.version(1).stores({ notes: "id", [SYNC_TABLE]: SYNC_SCHEMA });
+            await db.open();
+            table = db.table("notes");
+            syncCursors = new SyncCursors(() => db.table(SYNC_TABLE));
+            onSynced = vi.fn();
+            notesConfig = {
+                ...(config as unknown as OperationsConfig<TestNote, string>),
+                baseUrl: "/api/notes",
+                getTable: () => table,
+                sync: {},
+                syncCursors,
+                onSynced,
+            };
+        });
+
+        afterEach(async () => {
+            await db.delete();
+        });
+
+        it("should apply changes and deletions since the stored cursor", async () => {
+            await table.bulkPut([
+                { id: "1", title: "Old", updatedAt: "2024-05-01" },
+                { id: "2", title: "Gone", updatedAt: "2024-05-01" },
+            ]);
+            await syncCursors.set("users", "2024-05-01");
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", title: "New", updatedAt: "2024-05-03" }],
+                deleted: ["2"],
+            });
+
+            const operations = createOperations(notesConfig);
+            const result = await operations.sync();
+
+            expect(mockUrlBuilder.buildUrl).toHaveBeenCalledWith(
+                "/api/notes/sync",
+                { since: "2024-05-01" }
+            );
+            expect(await table.toArray()).toEqual([
+                { id: "1", title: "New", updatedAt: "2024-05-03" },
+            ]);
+            // Without a cursor in the response, the newest updatedAt is the next one
+            expect(await syncCursors.get("users")).toBe("2024-05-03");
+            expect(result.deleted).toEqual(["2"]);
+            expect(onSynced).toHaveBeenCalledWith(result);
+        });
+
+        it("should prefer the cursor returned by the server", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", title: "A", updatedAt: "2024-05-03" }],
+                cursor: "token-7",
+            });
+
+            const operations = createOperations({
+                ...notesConfig,
+                sync: { url: "/api/notes/changes", param: "token" },
+            });
+            await operations.sync();
+
+            // The first sync has no cursor to send
+            expect(mockUrlBuilder.buildUrl).toHaveBeenCalledWith(
+                "/api/notes/changes",
+                { token: undefined }
+            );
+            expect(await syncCursors.get("users")).toBe("token-7");
+        });
+
+        it("should keep the cursor and skip invalidation for empty deltas", async () => {
+            await syncCursors.set("users", "2024-05-01");
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+
+            const operations = createOperations(notesConfig);
+            await operations.sync();
+
+            expect(await syncCursors.get("users")).toBe("2024-05-01");
+            expect(onSynced).not.toHaveBeenCalled();
+        });
+
+        it("should answer lists from Dexie after syncing", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: [{ id: "1", title: "A", updatedAt: "2024-05-03" }],
+            });
+
+            const operations = createOperations(notesConfig);
+            const [first, second] = await Promise.all([
+                operations.list(),
+                operations.list({ title: "A" }),
+            ]);
+
+            // Concurrent lists share one delta request
+            expect(apiRequest).toHaveBeenCalledTimes(1);
+            expect(first).toEqual(second);
+            expect(first.map((note) => note.id)).toEqual(["1"]);
+        });
+
+        it("should leave syncs to the leader tab", async () => {
+            await table.put({
+                id: "1",
+                title: "Cached",
+                updatedAt: "2024-05-01",
+            });
+            const requestSync = vi.fn(() => true);
+
+            const operations = createOperations({
+                ...notesConfig,
+                requestSync,
+            });
+            const notes = await operations.list();
+
+            expect(requestSync).toHaveBeenCalled();
+            expect(apiRequest).not.toHaveBeenCalled();
+            expect(notes.map((note) => note.id)).toEqual(["1"]);
+        });
+
+        it("should reject sync() for resources without a delta endpoint", async () => {
+            const operations = createOperations(config);
+
+            await expect(operations.sync()).rejects.toThrowError(
+                /has no delta sync endpoint/
+            );
+        });
+    });
+
+    describe("listPage", () => {
+        const users: TestUser[] = [
+            { id: "user1", name: "User 1", email: "user1@example.com" },
+            { id: "user2", name: "User 2", email: "user2@example.com" },
+        ];
+
+        it("should request the first cursor page without a cursor", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: users,
+                meta: { nextCursor: "abc", total: 5 },
+            });
+
+            const operations = createOperations({
+                ...config,
+                pagination: { type: "cursor", pageSize: 2 },
+            });
+            const page = await operations.listPage({ role: "admin" });
+
+            expect(apiRequest).toHaveBeenCalledWith(
+                "/api/users?role=admin&limit=2",
+                {}
+            );
+            expect(page).toEqual({
+                data: users,
+                meta: { nextCursor: "abc", total: 5 },
+                nextPageParam: "abc",
+            });
+            expect(mockTable.bulkPut).toHaveBeenCalledWith(users);
+        });
+
+        it("should pass the cursor and stop when nextCursor is null", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: users,
+                meta: { nextCursor: null },
+            });
+
+            const operations = createOperations(config);
+            const page = await operations.listPage(undefined, "abc");
+
+            expect(apiRequest).toHaveBeenCalledWith(
+                "/api/users?cursor=abc",
+                {}
+            );
+            expect(page.nextPageParam).toBeUndefined();
+        });
+
+        it("should advance offset pages until total is reached", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: users,
+                meta: { page: 1, total: 4 },
+            });
+
+            const operations = createOperations({
+                ...config,
+                pagination: { type: "offset", pageSize: 2 },
+            });
+            const first = await operations.listPage();
+
+            expect(apiRequest).toHaveBeenCalledWith(
+                "/api/users?page=1&limit=2",
+                {}
+            );
+            expect(first.nextPageParam).toBe(2);
+
+            vi.mocked(apiRequest).mockResolvedValue({
+                data: users,
+                meta: { page: 2, total: 4 },
+            });
+            const second = await operations.listPage(undefined, 2);
+
+            expect(second.nextPageParam).toBeUndefined();
+        });
+
+        it("should default missing meta to an empty object", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+
+            const operations = createOperations({
+                ...config,
+                pagination: { type: "offset" },
+            });
+            const page = await operations.listPage();
+
+            expect(page).toEqual({
+                data: [],
+                meta: {},
+                nextPageParam: undefined,
+            });
+        });
+
+        it("should propagate network errors", async () => {
+            const error = new ApiError(
+                "Server Error",
+                500,
+                "Internal Server Error"
+            );
+            vi.mocked(apiRequest).mockRejectedValue(error);
+
+            const operations = createOperations(config);
+
+            await expect(operations.listPage()).rejects.toBe(error);
+            expect(mockTable.bulkPut).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("response envelopes", () => {
+        const users: TestUser[] = [
+            { id: "user1", name: "User 1", email: "user1@example.com" },
+        ];
+
+        it("should read pages through the resource's adapter", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({
+                results: users,
+                count: 3,
+            });
+
+            const operations = createOperations({
+                ...config,
+                pagination: { type: "offset", pageSize: 1 },
+                response: createEnvelopeAdapter({
+                    list: "results",
+                    total: "count",
+                }),
+            });
+            const page = await operations.listPage();
+
+            expect(page).toEqual({
+                data: users,
+                meta: { total: 3 },
+                nextPageParam: 2,
+            });
+            expect(mockTable.bulkPut).toHaveBeenCalledWith(users);
+        });
+
+        it("should read bare items and lists", async () => {
+            const operations = createOperations({
+                ...config,
+                response: bareResponse,
+            });
+
+            vi.mocked(apiRequest).mockResolvedValue(users[0]);
+            await expect(
+                operations.update("user1", { name: "User 1" })
+            ).resolves.toEqual(users[0]);
+            expect(mockTable.put).toHaveBeenCalledWith(users[0]);
+
+            vi.mocked(apiRequest).mockResolvedValue(users);
+            vi.mocked(mockTable.toArray).mockResolvedValue([]);
+            await expect(operations.list()).resolves.toEqual(users);
+        });
+
+        it("should fail lists missing from the response", async () => {
+            vi.mocked(apiRequest).mockResolvedValue({ data: users });
+
+            const operations = createOperations({
+                ...config,
+                response: createEnvelopeAdapter({ list: "items" }),
+            });
+
+            await expect(operations.listPage()).rejects.toThrowError(
+                'Expected the "items" field of the response to hold a list.'
+            );
+            expect(mockTable.bulkPut).not.toHaveBeenCalled();
+        });
+    });
+
     describe("create", () => {
         it("should POST data to API and store in Dexie", async () => {
             const newUserData = { name: "New User", email: "new@example.com" };
@@ -517,6 +1107,362 @@ describe("createOperations", () => {
         });
     });
 
+    describe("requestOptions", () => {
+        it("should forward resource request options to every API call", async () => {
+            const transport = vi.fn();
+            const updatedUser: TestUser = {
+                id: "user1",
+                name: "Updated Name",
+                email: "user1@example.com",
+            };
+
+            vi.mocked(mockTable.get).mockResolvedValue(undefined);
+            vi.mocked(apiRequest).mockResolvedValue({ data: updatedUser });
+
+            const operations = createOperations({
+                ...config,
+                requestOptions: { transport },
+            });
+            await operations.getById("user1");
+            await operations.update("user1", { name: "Updated Name" });
+
+            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1", {
+                transport,
+            });
+            expect(apiRequest).toHaveBeenCalledWith("/api/users/user1", {
+                transport,
+                method: "PATCH",
+                body: JSON.stringify({ name: "Updated Name" }),
+            });
+        });
+    });
+
+    describe("retry", () => {
+        it("should retry background fetches before falling back", async () => {
+            const freshUser: TestUser = {
+                id: "user1",
+                name: "Fresh User",
+                email: "fresh@example.com",
+            };
+
+            vi.mocked(mockTable.get).mockResolvedValue(undefined);
+            vi.mocked(apiRequest)
+                .mockRejectedValueOnce(new ApiError("Unavailable", 503, ""))
+                .mockResolvedValueOnce({ data: freshUser });
+
+            const operations = createOperations({
+                ...config,
+                retry: { baseDelayMs: 1, jitter: false },
+            });
+            const result = await operations.getById("user1");
+
+            expect(result).toEqual(freshUser);
+            expect(apiRequest).toHaveBeenCalledTimes(2);
+            expect(consoleSpy).not.toHaveBeenCalled();
+        });
+
+        it("should retry mutations and rethrow once attempts are exhausted", async () => {
+            const serverError = new ApiError("Server Error", 500, "");
+            vi.mocked(apiRequest).mockRejectedValue(serverError);
+
+            const operations = createOperations({
+                ...config,
+                retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+            });
+
+            await expect(
+                operations.update("user1", { name: "Updated Name" })
+            ).rejects.toBe(serverError);
+            expect(apiRequest).toHaveBeenCalledTimes(3);
+            expect(mockTable.put).not.toHaveBeenCalled();
+        });
+
+        it("should only retry creates after network failures when asked to", async () => {
+            const user: TestUser = {
+                id: "user1",
+                name: "User 1",
+                email: "user1@example.com",
+            };
+            const networkError = new NetworkError(
+                new TypeError("fetch failed")
+            );
+            vi.mocked(apiRequest).mockRejectedValue(networkError);
+            const retry = { maxAttempts: 3, baseDelayMs: 1, jitter: false };
+
+            await expect(
+                createOperations({ ...config, retry }).create(user)
+            ).rejects.toBe(networkError);
+            expect(apiRequest).toHaveBeenCalledTimes(1);
+
+            vi.mocked(apiRequest).mockClear();
+            await expect(
+                createOperations({
+                    ...config,
+                    retry: { ...retry, retryOnNetworkError: true },
+                }).create(user)
+            ).rejects.toBe(networkError);
+            expect(apiRequest).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe("timeout", () => {
+        it("should let a per-call timeout override the resource timeout", async () => {
+            vi.mocked(apiRequest).mockResolvedValue(undefined);
+
+            const operations = createOperations({
+                ...config,
+                requestOptions: { timeout: 5000 },
+            });
+            await operations.remove("user1");
+            await operations.remove("user2", { timeout: 100 });
+
+            expect(apiRequest).toHaveBeenNthCalledWith(1, "/api/users/user1", {
+                method: "DELETE",
+                timeout: 5000,
+            });
+            expect(apiRequest).toHaveBeenNthCalledWith(2, "/api/users/user2", {
+                method: "DELETE",
+                timeout: 100,
+            });
+        });
+    });
+
+    describe("cancellation", () => {
+        it("should pass the signal to the request", async () => {
+            const controller = new AbortController();
+            vi.mocked(mockTable.toArray).mockResolvedValue([]);
+            vi.mocked(apiRequest).mockResolvedValue({ data: [] });
+
+            const operations = createOperations(config);
+            await operations.list(undefined, { signal: controller.signal });
+
+            expect(apiRequest).toHaveBeenCalledWith("/api/users", {
+                signal: controller.signal,
+            });
+        });
+
+        it("should not write to Dexie when aborted before the response lands", async () => {
+            const controller = new AbortController();
+            const freshUser: TestUser = {
+                id: "user1",
+                name: "Fresh User",
+                email: "fresh@example.com",
+            };
+
+            vi.mocked(mockTable.get).mockResolvedValue(undefined);
+            vi.mocked(apiRequest).mockImplementation(async () => {
+                controller.abort();
+                return { data: freshUser };
+            });
+
+            const operations = createOperations(config);
+            const result = await operations.getById("user1", {
+                signal: controller.signal,
+            });
+
+            expect(result).toBeNull();
+            expect(mockTable.put).not.toHaveBeenCalled();
+        });
+
+        it("should not log aborted requests as failures", async () => {
+            const controller = new AbortController();
+            controller.abort();
+            vi.mocked(mockTable.toArray).mockResolvedValue([]);
+            vi.mocked(apiRequest).mockRejectedValue(
+                new DOMException("Aborted", "AbortError")
+            );
+
+            const operations = createOperations(config);
+            const result = await operations.list(undefined, {
+                signal: controller.signal,
+            });
+
+            expect(result).toEqual([]);
+            expect(mockTable.bulkPut).not.toHaveBeenCalled();
+            expect(consoleSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("offline", () => {
+        let outbox: Outbox;
+
+        beforeEach(() => {
+            outbox = {
+                enqueue: vi.fn().mockResolvedValue(1),
+                hasPending: vi.fn().mockResolvedValue(false),
+                registerHandler: vi.fn(),
+            } as unknown as Outbox;
+        });
+
+        it("should queue mutations that can't reach the server", async () => {
+            const user: TestUser = {
+                id: "user1",
+                name: "User 1",
+                email: "user1@example.com",
+            };
+            vi.mocked(apiRequest).mockRejectedValue(
+                new NetworkError(new TypeError("fetch failed"))
+            );
+
+            const operations = createOperations({ ...config, outbox });
+            const result = await operations.create(user);
+
+            expect(result).toEqual(user);
+            expect(outbox.enqueue).toHaveBeenCalledWith({
+                resource: "users",
+                op: "create",
+                id: "user1",
+                data: user,
+            });
+            expect(mockTable.put).toHaveBeenCalledWith(user);
+        });
+
+        it("should apply queued updates to the local row", async () => {
+            const cachedUser: TestUser = {
+                id: "user1",
+                name: "User 1",
+                email: "user1@example.com",
+            };
+            vi.mocked(outbox.hasPending).mockResolvedValue(true);
+            vi.mocked(mockTable.get).mockResolvedValue(cachedUser);
+
+            const operations = createOperations({ ...config, outbox });
+            const result = await operations.update("user1", {
+                name: "Renamed",
+            });
+
+            // Queued behind earlier mutations without trying the network
+            expect(apiRequest).not.toHaveBeenCalled();
+            expect(result).toEqual({ ...cachedUser, name: "Renamed" });
+            expect(mockTable.put).toHaveBeenCalledWith({
+                ...cachedUser,
+                name: "Renamed",
+            });
+        });
+
+        it("should remove queued deletions from the local table", async () => {
+            vi.mocked(apiRequest).mockRejectedValue(
+                new NetworkError(new TypeError("fetch failed"))
+            );
+
+            const operations = createOperations({ ...config, outbox });
+            await operations.remove("user1");
+
+            expect(outbox.enqueue).toHaveBeenCalledWith({
+                resource: "users",
+                op: "remove",
+                id: "user1",
+            });
+            expect(mockTable.delete).toHaveBeenCalledWith("user1");
+        });
+
+        it("should not queue mutations the server rejected", async () => {
+            const error = new ApiError("Bad Request", 400, "Bad Request");
+            vi.mocked(apiRequest).mockRejectedValue(error);
+
+            const operations = createOperations({ ...config, outbox });
+
+            await expect(operations.remove("user1")).rejects.toBe(error);
+            expect(outbox.enqueue).not.toHaveBeenCalled();
+        });
+
+        it("should replay queued entries through the resource handler", async () => {
+            const created: TestUser = {
+                id: "server1",
+                name: "User 1",
+                email: "user1@example.com",
+            };
+            vi.mocked(apiRequest).mockResolvedValue({ data: created });
+
+            createOperations({ ...config, outbox });
+            const [resource, handler] = vi.mocked(outbox.registerHandler).mock
+                .calls[0];
+            await handler({
+                resource,
+                op: "create",
+                id: "local1",
+                data: { id: "local1", name: "User 1" },
+                status: "pending",
+                attempts: 0,
+                createdAt: 0,
+            });
+
+            expect(apiRequest).toHaveBeenCalledWith(
+                "/api/users",
+                expect.objectContaining({ method: "POST" })
+            );
+            expect(mockTable.put).toHaveBeenCalledWith(created);
+            // The local copy is replaced by the server's item
+            expect(mockTable.delete).toHaveBeenCalledWith("local1");
+        });
+    });
+
+    describe("retention", () => {
+        let sweeper: CacheSweeper;
+
+        beforeEach(() => {
+            sweeper = {
+                recordFetched: vi.fn().mockResolvedValue(undefined),
+                recordUsed: vi.fn().mockResolvedValue(undefined),
+            } as unknown as CacheSweeper;
+        });
+
+        it("should record rows fetched from the server", async () => {
+            const users: TestUser[] = [
+                { id: "user1", name: "User 1", email: "user1@example.com" },
+                { id: "user2", name: "User 2", email: "user2@example.com" },
+            ];
+            vi.mocked(mockTable.toArray).mockResolvedValue([]);
+            vi.mocked(apiRequest).mockResolvedValue({ data: users });
+
+            const operations = createOperations({ ...config, sweeper });
+            await operations.list();
+
+            expect(sweeper.recordFetched).toHaveBeenCalledWith("users", [
+                "user1",
+                "user2",
+            ]);
+            expect(sweeper.recordUsed).not.toHaveBeenCalled();
+        });
+
+        it("should record rows served from the cache", async () => {
+            const cachedUser: TestUser = {
+                id: "user1",
+                name: "Cached User",
+                email: "cached@example.com",
+            };
+            vi.mocked(mockTable.get).mockResolvedValue(cachedUser);
+            vi.mocked(apiRequest).mockReturnValue(new Promise(() => {}));
+
+            const operations = createOperations({ ...config, sweeper });
+            await operations.getById("user1");
+
+            expect(sweeper.recordUsed).toHaveBeenCalledWith("users", ["user1"]);
+        });
+
+        it("should not fail operations when tracking fails", async () => {
+            const user: TestUser = {
+                id: "user1",
+                name: "User 1",
+                email: "user1@example.com",
+            };
+            vi.mocked(sweeper.recordFetched).mockRejectedValue(
+                new Error("quota exceeded")
+            );
+            vi.mocked(apiRequest).mockResolvedValue({ data: user });
+
+            const operations = createOperations({ ...config, sweeper });
+
+            await expect(operations.create(user)).resolves.toEqual(user);
+            await vi.waitFor(() =>
+                expect(consoleSpy).toHaveBeenCalledWith(
+                    "[Query] Failed to track users cache usage: ",
+                    expect.any(Error)
+                )
+            );
+        });
+    });
+
     describe("remove", () => {
         it("should DELETE via API and remove from Dexie", async () => {
             vi.mocked(apiRequest).mockResolvedValue(undefined);
@@ -5,14 +5,47 @@
  * with local-first SWR (Stale-While-Revalidate) behavior.
  */
 
-import type { Table } from "dexie";
+import type { IndexableType, Table } from "dexie";
 
-import { ApiError, apiRequest } from "../api";
+import { ApiError, apiRequest, type ApiRequestOptions } from "../api";
+import type { CacheSweeper } from "../core/cache-sweeper";
 import type { EntityNormalizer } from "../core/entity-normalizer";
-import { buildDexieKey } from "../core/id-utils";
+import {
+    buildDexieKey,
+    getEntityId,
+    hasEntityKey,
+    serializeId,
+} from "../core/id-utils";
+import { readMatchingRows } from "../core/indexes";
+import { isNetworkError, type Outbox } from "../core/outbox";
+import {
+    buildPageParams,
+    getInitialPageParam,
+    getNextPageParam,
+    isCompleteList,
+} from "../core/pagination";
+import { dataEnvelope, type ResponseAdapter } from "../core/response-adapter";
+import { isAbortError, type RetryPolicy, withRetry } from "../core/retry";
+import {
+    getHighWaterMark,
+    type SyncCursors,
+    type SyncCursorValue,
+} from "../core/sync-cursors";
 import type { URLBuilder } from "../core/url-builder";
-import type { FlattenRefs, ListParams, ResourceOperations } from "../types";
-import { filterEntities } from "../utils/filter-matcher";
+import type {
+    FlattenRefs,
+    IndexDefinition,
+    ListParams,
+    Page,
+    PageMeta,
+    PageParam,
+    PaginationConfig,
+    RequestOptions,
+    ResourceOperations,
+    SyncConfig,
+    SyncResult,
+} from "../types";
+import { mergeProjection, shapeEntities } from "../utils/list-shaping";
 
 /**
  * Configuration for creating resource operations.
@@ -30,6 +63,42 @@ export interface OperationsConfig<T, ID> {
     normalizer: EntityNormalizer<T>;
     /** URL builder for API requests */
     urlBuilder: URLBuilder<T, ID>;
+    /** Options applied to every API request of this resource (e.g., transport) */
+    requestOptions?: ApiRequestOptions;
+    /** Optional retry policy applied to every API request of this resource */
+    retry?: RetryPolicy;
+    /** Optional pagination contract of the list endpoint (defaults to cursor) */
+    pagination?: PaginationConfig;
+    /** Optional parser of response envelopes (defaults to `{ data }`) */
+    response?: ResponseAdapter;
+    /** Optional secondary indexes used to answer list filters from Dexie */
+    indexes?: IndexDefinition[];
+    /** Outbox that records mutations while offline (offline-enabled resources only) */
+    outbox?: Outbox;
+    /** Cache sweeper that tracks row usage (resources with a retention policy only) */
+    sweeper?: CacheSweeper;
+    /** Whether complete list responses remove cached rows missing from them (default: false) */
+    reconcile?: boolean;
+    /** Delta sync contract (delta-synced resources only) */
+    sync?: SyncConfig;
+    /** Store of delta sync cursors (delta-synced resources only) */
+    syncCursors?: SyncCursors;
+    /** Called after a delta sync changed the local table (e.g., to invalidate queries) */
+    onSynced?: (result: SyncResult<T, ID>) => void;
+    /**
+     * Asks another tab to run the delta sync behind `list()`.
+     * Returns false if this tab should sync itself (e.g., it's the leader tab).
+     */
+    requestSync?: () => boolean;
+    /** Called after a mutation wrote to Dexie (e.g., to notify other tabs) */
+    onChanged?: (ids: ID[]) => void;
+}
+
+/**
+ * Checks whether the browser reports being offline.
+ */
+function isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false;
 }
 
 /**
@@ -41,8 +110,13 @@ export interface OperationsConfig<T, ID> {
  * 3. Update Dexie with fresh data
  * 4. Return fresh data (or cached if network fails)
  *
+ * Failed network calls are retried according to the resource's retry policy.
+ * Reads accept an AbortSignal; aborted fetches never write to Dexie.
+ * With an outbox, mutations that can't reach the server are queued and applied locally.
+ * With a sync config, lists are kept up to date through the delta endpoint.
+ *
  * @param config - Operations configuration
- * @returns Resource operations (getById, list, create, update, remove)
+ * @returns Resource operations (getById, list, listPage, create, update, remove, sync)
  *
  * @example
  * ```ts
@@ -64,31 +138,442 @@ export interface OperationsConfig<T, ID> {
 export function createOperations<T, ID>(
     config: OperationsConfig<T, ID>
 ): ResourceOperations<T, ID> {
-    const { name, baseUrl, keyFields, getTable, normalizer, urlBuilder } =
-        config;
+    const {
+        name,
+        baseUrl,
+        keyFields,
+        getTable,
+        normalizer,
+        urlBuilder,
+        requestOptions = {},
+        retry,
+        pagination,
+        response: envelope = dataEnvelope,
+        indexes,
+        outbox,
+        sweeper,
+        reconcile = false,
+        sync,
+        syncCursors,
+        onSynced,
+        requestSync,
+        onChanged,
+    } = config;
+
+    /**
+     * Issues an API request with the resource's request options and retry policy applied.
+     * A per-call timeout overrides the resource's timeout.
+     */
+    const request = <R>(
+        url: string,
+        init: ApiRequestOptions = {},
+        policy: RetryPolicy | undefined = retry
+    ): Promise<R> =>
+        withRetry(
+            () =>
+                apiRequest<R>(url, {
+                    ...requestOptions,
+                    ...init,
+                    timeout: init.timeout ?? requestOptions.timeout,
+                }),
+            policy,
+            init.signal ?? undefined
+        );
+
+    /**
+     * Requests a single item and unwraps it from the response envelope.
+     */
+    const requestItem = async (
+        url: string,
+        init?: ApiRequestOptions,
+        policy?: RetryPolicy
+    ): Promise<T> => envelope.unwrapItem(await request(url, init, policy)) as T;
+
+    /**
+     * Requests a list and unwraps its items and page metadata from the response envelope.
+     */
+    const requestList = async (
+        url: string,
+        init?: ApiRequestOptions
+    ): Promise<{ data: T[]; meta?: PageMeta }> => {
+        const body = await request(url, init);
+        return {
+            data: envelope.unwrapList(body) as T[],
+            meta: envelope.extractMeta?.(body),
+        };
+    };
+
+    /**
+     * Records that items were fetched from the server or read from the cache,
+     * for the resource's retention policy. Tracking never fails the operation.
+     */
+    const track = (usage: "fetched" | "used", items: T[]): void => {
+        if (!sweeper || items.length === 0) {
+            return;
+        }
+
+        const rowKeys = items.map(
+            (item) =>
+                buildDexieKey(
+                    getEntityId<T, ID>(item, keyFields),
+                    keyFields
+                ) as IndexableType
+        );
+        const recorded =
+            usage === "fetched"
+                ? sweeper.recordFetched(name, rowKeys)
+                : sweeper.recordUsed(name, rowKeys);
+        recorded.catch((err) => {
+            console.error(`[Query] Failed to track ${name} cache usage: `, err);
+        });
+    };
+
+    /**
+     * Reads the cached items matching the filter params,
+     * sorted and projected by the `sort` and `fields` params like the API.
+     */
+    const readCached = async (
+        tbl: Table<T, ID>,
+        params?: ListParams
+    ): Promise<T[]> =>
+        shapeEntities(
+            await readMatchingRows(tbl, indexes, params),
+            params,
+            keyFields
+        );
+
+    /**
+     * Writes fetched items to Dexie. Items of projected responses (`fields`
+     * param) are merged into their cached rows, so the other fields are kept.
+     */
+    const storeFetched = async (
+        tbl: Table<T, ID>,
+        data: T[],
+        params?: ListParams
+    ): Promise<void> => {
+        const rows = normalizer.normalizeMany(data);
+        if (params?.fields === undefined) {
+            await tbl.bulkPut(rows);
+            return;
+        }
+
+        const cachedRows = await tbl.bulkGet(
+            rows.map(
+                (row) =>
+                    buildDexieKey(
+                        getEntityId<T, ID>(row, keyFields),
+                        keyFields
+                    ) as any
+            )
+        );
+        await tbl.bulkPut(
+            rows.map((row, index) => mergeProjection(cachedRows[index], row))
+        );
+    };
+
+    /**
+     * Removes cached rows that matched a list query before it was sent but are
+     * missing from the server's complete response (deleted by someone else).
+     * Rows written after the request was sent aren't in the snapshot, so they're kept.
+     * Skipped while the resource has queued mutations the server hasn't seen yet.
+     */
+    const removeMissing = async (
+        tbl: Table<T, ID>,
+        snapshot: T[],
+        data: T[]
+    ): Promise<void> => {
+        if (
+            snapshot.length === 0 ||
+            (outbox && (await outbox.hasPending(name)))
+        ) {
+            return;
+        }
+
+        const received = new Set(
+            data.map((item) =>
+                serializeId(getEntityId<T, ID>(item, keyFields), keyFields)
+            )
+        );
+        const missing = snapshot
+            .map((item) => getEntityId<T, ID>(item, keyFields))
+            .filter((id) => !received.has(serializeId(id, keyFields)))
+            .map((id) => buildDexieKey(id, keyFields) as any);
+        if (missing.length > 0) {
+            await tbl.bulkDelete(missing);
+        }
+    };
+
+    /**
+     * Fetches the changes since the stored cursor and applies them to Dexie.
+     * The new cursor is saved after the changes, so an interrupted sync is repeated.
+     */
+    const sendSync = async (
+        options?: RequestOptions
+    ): Promise<SyncResult<T, ID>> => {
+        if (!sync || !syncCursors) {
+            throw new Error(
+                `Resource "${name}" has no delta sync endpoint. ` +
+                    `Set \`sync\` in its config to enable sync().`
+            );
+        }
+
+        const {
+            url = `${baseUrl}/sync`,
+            param = "since",
+            cursorField = "updatedAt",
+        } = sync;
+        const since = await syncCursors.get(name);
+        const response = await request<{
+            data: T[];
+            deleted?: ID[];
+            cursor?: SyncCursorValue | null;
+        }>(urlBuilder.buildUrl(url, { [param]: since }), {
+            signal: options?.signal,
+            timeout: options?.timeout,
+        });
+        const { data: changed, deleted = [] } = response;
+
+        const tbl = getTable();
+        if (deleted.length > 0) {
+            await tbl.bulkDelete(
+                deleted.map((id) => buildDexieKey(id, keyFields) as any)
+            );
+        }
+        await tbl.bulkPut(normalizer.normalizeMany(changed));
+        track("fetched", changed);
+
+        const cursor =
+            response.cursor ?? getHighWaterMark(changed, cursorField) ?? since;
+        if (cursor !== undefined) {
+            await syncCursors.set(name, cursor);
+        }
+
+        const result = { changed, deleted };
+        if (changed.length > 0 || deleted.length > 0) {
+            onSynced?.(result);
+        }
+        return result;
+    };
+
+    let syncing: Promise<SyncResult<T, ID>> | null = null;
+
+    /**
+     * Runs a delta sync, or joins the one in flight.
+     */
+    const runSync = (options?: RequestOptions): Promise<SyncResult<T, ID>> => {
+        if (!syncing) {
+            syncing = sendSync(options).finally(() => {
+                syncing = null;
+            });
+        }
+        return syncing;
+    };
+
+    /**
+     * Sends a create request and stores the created item in Dexie.
+     */
+    const sendCreate = async (
+        data: unknown,
+        options?: RequestOptions
+    ): Promise<T> => {
+        // A retried POST could create the item twice, so network failures
+        // are only retried if the policy asks for it
+        const created = await requestItem(
+            baseUrl,
+            {
+                method: "POST",
+                body: JSON.stringify(data),
+                signal: options?.signal,
+                timeout: options?.timeout,
+            },
+            retry && { retryOnNetworkError: false, ...retry }
+        );
+
+        // Add to Dexie
+        const tbl = getTable();
+        await tbl.put(normalizer.normalize(created));
+        track("fetched", [created]);
+        onChanged?.([getEntityId<T, ID>(created, keyFields)]);
+
+        return created;
+    };
+
+    /**
+     * Sends an update request and stores the updated item in Dexie.
+     */
+    const sendUpdate = async (
+        id: ID,
+        data: unknown,
+        options?: RequestOptions
+    ): Promise<T> => {
+        const updated = await requestItem(urlBuilder.buildIdUrl(id), {
+            method: "PATCH",
+            body: JSON.stringify(data),
+            signal: options?.signal,
+            timeout: options?.timeout,
+        });
+
+        // Update Dexie
+        const tbl = getTable();
+        await tbl.put(normalizer.normalize(updated));
+        track("fetched", [updated]);
+        onChanged?.([getEntityId<T, ID>(updated, keyFields)]);
+
+        return updated;
+    };
+
+    /**
+     * Sends a delete request and removes the item from Dexie.
+     */
+    const sendRemove = async (
+        id: ID,
+        options?: RequestOptions
+    ): Promise<void> => {
+        await request<void>(urlBuilder.buildIdUrl(id), {
+            method: "DELETE",
+            signal: options?.signal,
+            timeout: options?.timeout,
+        });
+
+        // Remove from Dexie
+        const tbl = getTable();
+        const keyToDelete = buildDexieKey(id, keyFields);
+        await tbl.delete(keyToDelete as any);
+        onChanged?.([id]);
+    };
+
+    /**
+     * Sends a mutation, or records it in the outbox when the resource is offline-enabled
+     * and the server can't be reached. Mutations are also queued while earlier ones of
+     * this resource are still pending, so they replay in order.
+     */
+    const sendOrQueue = async <R>(
+        send: () => Promise<R>,
+        queue: () => Promise<R>
+    ): Promise<R> => {
+        if (!outbox) {
+            return send();
+        }
+        if (isOffline() || (await outbox.hasPending(name))) {
+            return queue();
+        }
+
+        try {
+            return await send();
+        } catch (error) {
+            if (isNetworkError(error)) {
+                return queue();
+            }
+            throw error;
+        }
+    };
+
+    /**
+     * Queues a create and stores the item locally if it already has its key.
+     */
+    const queueCreate = async (data: unknown): Promise<T> => {
+        const item = data as T;
+        const id = hasEntityKey(item, keyFields)
+            ? getEntityId<T, ID>(item, keyFields)
+            : undefined;
+
+        await outbox!.enqueue({ resource: name, op: "create", id, data });
+        if (id !== undefined) {
+            await getTable().put(normalizer.normalize(item));
+            onChanged?.([id]);
+        }
+
+        return item;
+    };
+
+    /**
+     * Queues an update and applies it to the local row.
+     */
+    const queueUpdate = async (id: ID, data: unknown): Promise<T> => {
+        await outbox!.enqueue({ resource: name, op: "update", id, data });
+
+        const tbl = getTable();
+        const current = await tbl.get(buildDexieKey(id, keyFields) as any);
+        const updated = { ...current, ...(data as object) } as T;
+        if (current) {
+            await tbl.put(normalizer.normalize(updated));
+            onChanged?.([id]);
+        }
+
+        return updated;
+    };
+
+    /**
+     * Queues a deletion and removes the local row.
+     */
+    const queueRemove = async (id: ID): Promise<void> => {
+        await outbox!.enqueue({ resource: name, op: "remove", id });
+        await getTable().delete(buildDexieKey(id, keyFields) as any);
+        onChanged?.([id]);
+    };
+
+    // Replays this resource's queued mutations once the server is reachable
+    outbox?.registerHandler(name, async (entry) => {
+        const id = entry.id as ID;
+        switch (entry.op) {
+            case "create": {
+                const created = await sendCreate(entry.data);
+                // Drop the local copy if the server assigned a different key
+                const createdId = getEntityId<T, ID>(created, keyFields);
+                if (
+                    entry.id !== undefined &&
+                    serializeId(id, keyFields) !==
+                        serializeId(createdId, keyFields)
+                ) {
+                    await getTable().delete(
+                        buildDexieKey(id, keyFields) as any
+                    );
+                    onChanged?.([id]);
+                }
+                return;
+            }
+            case "update":
+                await sendUpdate(id, entry.data);
+                return;
+            case "remove":
+                await sendRemove(id);
+                return;
+        }
+    });
 
     return {
         /**
          * Fetches a single item by ID.
          * First checks Dexie, then fetches from network and updates cache.
          */
-        getById: async (id: ID): Promise<T | null> => {
+        getById: async (
+            id: ID,
+            options?: RequestOptions
+        ): Promise<T | null> => {
+            const signal = options?.signal;
             const tbl = getTable();
             // Try Dexie first for instant response
             const cached = await tbl.get(id);
 
             // Fetch from network in background
-            const networkPromise = apiRequest<{ data: T }>(
-                urlBuilder.buildIdUrl(id)
-            )
-                .then(async ({ data }) => {
+            const networkPromise = requestItem(urlBuilder.buildIdUrl(id), {
+                signal,
+                timeout: options?.timeout,
+            })
+                .then(async (data) => {
+                    // Never let an aborted request overwrite the table
+                    if (signal?.aborted) {
+                        return null;
+                    }
                     await tbl.put(normalizer.normalize(data));
+                    track("fetched", [data]);
                     return data;
                 })
                 .catch((err) => {
                     const isNotFound =
                         err instanceof ApiError && err.status === 404;
-                    if (!isNotFound) {
+                    const isCancelled = isAbortError(err) || signal?.aborted;
+                    if (!isNotFound && !isCancelled) {
                         console.error(
                             `[Query] Failed to fetch ${name} by ID: `,
                             err
@@ -98,93 +583,174 @@ export function createOperations<T, ID>(
                 });
 
             // Return cached if available, otherwise wait for network
-            return cached ?? (await networkPromise);
+            if (cached) {
+                track("used", [cached]);
+                return cached;
+            }
+            return networkPromise;
         },
 
         /**
          * Fetches a list of items with optional query parameters.
          * First checks Dexie, then fetches from network and updates cache.
+         * Complete responses also remove cached matches the server no longer returns.
+         * Delta-synced resources run a sync instead and read the result from Dexie.
          */
-        list: async (params?: ListParams): Promise<T[]> => {
+        list: async (
+            params?: ListParams,
+            options?: RequestOptions
+        ): Promise<T[]> => {
+            const signal = options?.signal;
             const tbl = getTable();
             // Try Dexie first for instant response
-            const allCached = await tbl.toArray();
-            // Apply client-side filtering to cached data
-            const cached = filterEntities(allCached, params);
+            const cached = await readCached(tbl, params);
+
+            // The leader tab syncs and shares the changes with this one
+            if (sync && requestSync?.()) {
+                track("used", cached);
+                return cached;
+            }
+
+            if (sync) {
+                // Apply the changes since the last sync in background
+                const syncPromise = runSync()
+                    .then(() => readCached(tbl, params))
+                    .catch((err) => {
+                        console.error(`[Query] Failed to sync ${name}: `, err);
+                        return [];
+                    });
+
+                if (cached.length > 0) {
+                    track("used", cached);
+                    return cached;
+                }
+                return syncPromise;
+            }
 
             // Fetch from network in background
             const url = urlBuilder.buildUrl(baseUrl, params);
-            const networkPromise = apiRequest<{ data: T[] }>(url)
-                .then(async ({ data }) => {
+            const networkPromise = requestList(url, {
+                signal,
+                timeout: options?.timeout,
+            })
+                .then(async ({ data, meta }) => {
+                    // Never let an aborted request overwrite the table
+                    if (signal?.aborted) {
+                        return [];
+                    }
+                    if (
+                        reconcile &&
+                        isCompleteList(data, meta, params, pagination)
+                    ) {
+                        await removeMissing(tbl, cached, data);
+                    }
                     // Update Dexie with fresh data
-                    await tbl.bulkPut(normalizer.normalizeMany(data));
+                    await storeFetched(tbl, data, params);
+                    track("fetched", data);
                     return data;
                 })
                 .catch((err) => {
-                    console.error(
-                        `[Query] Failed to fetch ${name} list: `,
-                        err
-                    );
+                    if (!isAbortError(err) && !signal?.aborted) {
+                        console.error(
+                            `[Query] Failed to fetch ${name} list: `,
+                            err
+                        );
+                    }
                     return [];
                 });
 
             // Return filtered cached data if available, otherwise wait for network
-            return cached.length > 0 ? cached : await networkPromise;
+            if (cached.length > 0) {
+                track("used", cached);
+                return cached;
+            }
+            return networkPromise;
         },
 
         /**
-         * Creates a new item.
-         * Optimistically adds to Dexie, then syncs with server.
+         * Fetches a single page of items from the network.
+         * Fetched items are persisted to Dexie so later cached reads include them.
          */
-        create: async (data: FlattenRefs<Omit<T, keyof ID>>): Promise<T> => {
-            const { data: created } = await apiRequest<{ data: T }>(baseUrl, {
-                method: "POST",
-                body: JSON.stringify(data),
+        listPage: async (
+            params?: ListParams,
+            pageParam?: PageParam,
+            options?: RequestOptions
+        ): Promise<Page<T>> => {
+            const signal = options?.signal;
+            const currentParam = pageParam ?? getInitialPageParam(pagination);
+            const url = urlBuilder.buildUrl(
+                baseUrl,
+                buildPageParams(params, currentParam, pagination)
+            );
+
+            const { data, meta = {} } = await requestList(url, {
+                signal,
+                timeout: options?.timeout,
             });
 
-            // Add to Dexie
-            const tbl = getTable();
-            await tbl.put(normalizer.normalize(created));
+            // Never let an aborted request overwrite the table
+            if (!signal?.aborted) {
+                await storeFetched(getTable(), data, params);
+                track("fetched", data);
+            }
 
-            return created;
+            return {
+                data,
+                meta,
+                nextPageParam: getNextPageParam(
+                    data,
+                    meta,
+                    currentParam,
+                    pagination
+                ),
+            };
         },
 
+        /**
+         * Creates a new item.
+         * Stores the created item in Dexie once the server responds.
+         * Offline resources queue the item when the server can't be reached.
+         */
+        create: (
+            data: FlattenRefs<Omit<T, keyof ID>>,
+            options?: RequestOptions
+        ): Promise<T> =>
+            sendOrQueue(
+                () => sendCreate(data, options),
+                () => queueCreate(data)
+            ),
+
         /**
          * Updates an existing item.
-         * Optimistically updates Dexie, then syncs with server.
+         * Stores the updated item in Dexie once the server responds.
+         * Offline resources queue the change when the server can't be reached.
          */
-        update: async (
+        update: (
             id: ID,
-            data: Partial<Omit<T, keyof ID>>
-        ): Promise<T> => {
-            const { data: updated } = await apiRequest<{ data: T }>(
-                urlBuilder.buildIdUrl(id),
-                {
-                    method: "PATCH",
-                    body: JSON.stringify(data),
-                }
-            );
-
-            // Update Dexie
-            const tbl = getTable();
-            await tbl.put(normalizer.normalize(updated));
-
-            return updated;
-        },
+            data: Partial<Omit<T, keyof ID>>,
+            options?: RequestOptions
+        ): Promise<T> =>
+            sendOrQueue(
+                () => sendUpdate(id, data, options),
+                () => queueUpdate(id, data)
+            ),
 
         /**
          * Deletes an item.
-         * Optimistically removes from Dexie, then syncs with server.
+         * Removes the item from Dexie once the server responds.
+         * Offline resources queue the deletion when the server can't be reached.
          */
-        remove: async (id: ID): Promise<void> => {
-            await apiRequest<void>(urlBuilder.buildIdUrl(id), {
-                method: "DELETE",
-            });
+        remove: (id: ID, options?: RequestOptions): Promise<void> =>
+            sendOrQueue(
+                () => sendRemove(id, options),
+                () => queueRemove(id)
+            ),
 
-            // Remove from Dexie
-            const tbl = getTable();
-            const keyToDelete = buildDexieKey(id, keyFields);
-            await tbl.delete(keyToDelete as any);
-        },
+        /**
+         * Applies the changes since the last sync from the delta endpoint.
+         * The first sync (or the first after the cursor was reset) fetches everything.
+         */
+        sync: (options?: RequestOptions): Promise<SyncResult<T, ID>> =>
+            runSync(options),
     };
 }
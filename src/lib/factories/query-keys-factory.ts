@@ -15,6 +15,7 @@ import type { ListParams, QueryKeys } from "../types";
  * - `all`: `[name]` - Base key for all queries of this resource
  * - `lists()`: `[name, "list"]` - Key for all list queries
  * - `list(params)`: `[name, "list", params?]` - Key for specific list query
+ * - `infinite(params)`: `[name, "list", "infinite", params?]` - Key for paginated list query
  * - `detail(id)`: `[name, "detail", serializedId]` - Key for single item query
  *
  * This structure enables efficient cache invalidation:
@@ -33,6 +34,7 @@ import type { ListParams, QueryKeys } from "../types";
  * keys.all                    // ["users"]
  * keys.lists()                // ["users", "list"]
  * keys.list({ active: true }) // ["users", "list", { active: true }]
+ * keys.infinite()             // ["users", "list", "infinite"]
  * keys.detail("123")          // ["users", "detail", "123"]
  *
  * // Composite key example
@@ -58,6 +60,12 @@ export function createQueryKeys<T, ID>(
                 ? ([name, "list", params] as const)
                 : ([name, "list"] as const),
 
+        /** Key for a paginated list query (nested under lists() for invalidation) */
+        infinite: (params?: ListParams) =>
+            params
+                ? ([name, "list", "infinite", params] as const)
+                : ([name, "list", "infinite"] as const),
+
         /** Key for a detail/single item query */
         detail: (id: ID) => [name, "detail", serializeId(id, keyFields)] as const,
     };
@@ -5,13 +5,23 @@
  * to create a fully-featured resource with local-first SWR behavior.
  */
 
+import { queryClient as defaultQueryClient } from "../../query-client";
+import type { CacheSweeper } from "../core/cache-sweeper";
 import { EntityNormalizer } from "../core/entity-normalizer";
 import { getEntityId } from "../core/id-utils";
+import type { Outbox } from "../core/outbox";
+import type { Realtime } from "../core/realtime";
+import type { SyncCursors } from "../core/sync-cursors";
+import type { TabSync } from "../core/tab-sync";
 import type { TableRegistry } from "../core/table-registry";
 import { URLBuilder } from "../core/url-builder";
-import type { ResourceAPI, ResourceConfig } from "../types";
+import type { QueryOptions, ResourceAPI, ResourceConfig } from "../types";
 
-import { createCacheOperations } from "./cache-factory";
+import {
+    createCacheOperations,
+    createRealtimeHandler,
+    createTabChangeHandler,
+} from "./cache-factory";
 import { createHooks } from "./hooks-factory";
 import { createOperations } from "./operations-factory";
 import { createQueryKeys } from "./query-keys-factory";
@@ -37,6 +47,13 @@ import { createQueryKeys } from "./query-keys-factory";
  *
  * @param config - Resource configuration (name, baseUrl, keyFields)
  * @param tableRegistry - The table registry for database access
+ * @param queryOptions - Defaults inherited from the owning Query (e.g., transport)
+ * @param outbox - The owning Query's outbox (used when `config.offline` is set)
+ * @param sweeper - The owning Query's cache sweeper (used when `config.retention` is set
+ *   and `config.sync` isn't)
+ * @param syncCursors - The owning Query's sync cursor store (used when `config.sync` is set)
+ * @param realtime - The owning Query's real-time dispatcher (events of this resource are applied)
+ * @param tabs - The owning Query's cross-tab channel (when tab sync is enabled)
  * @returns Complete resource API with hooks and operations
  *
  * @example
@@ -58,10 +75,28 @@ import { createQueryKeys } from "./query-keys-factory";
  */
 export function createResourceAPI<T, ID = string>(
     config: ResourceConfig<T, ID>,
-    tableRegistry: TableRegistry
+    tableRegistry: TableRegistry,
+    queryOptions: QueryOptions = {},
+    outbox?: Outbox,
+    sweeper?: CacheSweeper,
+    syncCursors?: SyncCursors,
+    realtime?: Realtime,
+    tabs?: TabSync
 ): ResourceAPI<T, ID> {
     const { name, baseUrl, keyFields } = config;
 
+    // Resource-level request settings override the Query-level defaults
+    const requestOptions = {
+        transport: config.transport ?? queryOptions.transport,
+        interceptors:
+            queryOptions.interceptors && config.interceptors
+                ? [...queryOptions.interceptors, ...config.interceptors]
+                : (config.interceptors ?? queryOptions.interceptors),
+        timeout: config.timeout ?? queryOptions.timeout,
+        tokenGetter: queryOptions.tokenGetter,
+        tokenRefresher: queryOptions.tokenRefresher,
+    };
+
     /**
      * Helper to get the table from the registry, throwing a helpful error if not initialized.
      * This lazy-loads the table from TableRegistry on first access.
@@ -81,11 +116,24 @@ export function createResourceAPI<T, ID = string>(
 
     // Create utilities
     const normalizer = new EntityNormalizer<T>(keyFields);
-    const urlBuilder = new URLBuilder<T, ID>(baseUrl, keyFields);
+    const urlBuilder = new URLBuilder<T, ID>(
+        baseUrl,
+        keyFields,
+        config.filterDialect ?? queryOptions.filterDialect
+    );
 
     // Create query keys
     const queryKeys = createQueryKeys<T, ID>(name, keyFields);
 
+    // Hooks, cache seeding and invalidations share one client
+    const queryClient = queryOptions.queryClient ?? defaultQueryClient;
+    const sync = config.sync === true ? {} : config.sync || undefined;
+
+    // Tell other tabs which rows changed in the shared table
+    const notifyTabs = tabs
+        ? (ids?: ID[]) => tabs.publish({ type: "changed", resource: name, ids })
+        : undefined;
+
     // Create operations
     const operations = createOperations<T, ID>({
         name,
@@ -94,6 +142,46 @@ export function createResourceAPI<T, ID = string>(
         getTable,
         normalizer,
         urlBuilder,
+        requestOptions,
+        retry: config.retry,
+        pagination: config.pagination,
+        response: config.response,
+        indexes: config.indexes,
+        outbox: config.offline ? outbox : undefined,
+        sweeper: config.retention && !sync ? sweeper : undefined,
+        reconcile: config.reconcile,
+        sync,
+        syncCursors: sync ? syncCursors : undefined,
+        // Synced changes landed in Dexie behind the query cache
+        onSynced: ({ changed, deleted }) => {
+            // Let in-flight list fetches finish; they read the synced table
+            void queryClient.invalidateQueries(
+                { queryKey: queryKeys.lists() },
+                { cancelRefetch: false }
+            );
+            const ids = [
+                ...changed.map((item) => getEntityId<T, ID>(item, keyFields)),
+                ...deleted,
+            ];
+            ids.forEach((id) => {
+                void queryClient.invalidateQueries({
+                    queryKey: queryKeys.detail(id),
+                });
+            });
+            notifyTabs?.(ids);
+        },
+        // Followers leave delta syncs to the leader tab; until the election
+        // has a result, this tab syncs itself
+        requestSync: tabs
+            ? () => {
+                  if (!tabs.isFollower) {
+                      return false;
+                  }
+                  tabs.publish({ type: "sync", resource: name });
+                  return true;
+              }
+            : undefined,
+        onChanged: notifyTabs,
     });
 
     // Create hooks
@@ -106,13 +194,71 @@ export function createResourceAPI<T, ID = string>(
         urlBuilder,
         queryKeys,
         operations,
+        pagination: config.pagination,
+        indexes: config.indexes,
+        whenReady: () => tableRegistry.whenReady(name),
+        queryClient,
     });
 
     // Create cache operations
-    const cacheOps = createCacheOperations<T, ID>(
-        { getTable, normalizer, queryKeys },
+    const cacheConfig = {
+        getTable,
+        normalizer,
+        queryKeys,
+        queryClient,
+        resetSyncCursor:
+            sync && syncCursors ? () => syncCursors.reset(name) : undefined,
+        onChanged: notifyTabs,
+    };
+    const cacheOps = createCacheOperations<T, ID>(cacheConfig, (entity) =>
+        getEntityId(entity, keyFields)
+    );
+
+    // Apply pushed changes once the table exists (events may arrive earlier)
+    const handleEvent = createRealtimeHandler<T, ID>(
+        cacheConfig,
+        keyFields,
         (entity) => getEntityId(entity, keyFields)
     );
+    realtime?.registerHandler(name, async (event) => {
+        await tableRegistry.whenReady(name);
+        await handleEvent(event);
+    });
+
+    // Refresh queries after other tabs wrote to the table, and run the
+    // delta syncs they ask the leader for
+    const handleTabChange = createTabChangeHandler<T, ID>(
+        cacheConfig,
+        keyFields
+    );
+    tabs?.subscribe((message) => {
+        if (message.resource !== name) {
+            return;
+        }
+
+        const handled =
+            message.type === "changed"
+                ? tableRegistry
+                      .whenReady(name)
+                      .then(() => handleTabChange(message.ids as ID[]))
+                : sync && tabs.isLeader
+                  ? operations.sync().then(() => undefined)
+                  : Promise.resolve();
+        handled.catch((err) => {
+            console.error(`[Query] Failed to apply ${name} tab message: `, err);
+        });
+    });
+
+    // A new leader catches up on the syncs followers asked the old one for
+    if (sync && tabs) {
+        void tabs
+            .whenLeader()
+            .then(() => tableRegistry.whenReady(name))
+            .then(() => operations.sync())
+            .catch((err) => {
+                console.error(`[Query] Failed to sync ${name}: `, err);
+            });
+    }
 
     // Return complete API
     return {
@@ -120,6 +266,7 @@ export function createResourceAPI<T, ID = string>(
         get table() {
             return getTable();
         },
+        ready: tableRegistry.whenReady(name),
         queryKeys,
         ...operations,
         ...hooks,
@@ -115,6 +115,10 @@ vi.mock("dexie", async () => {
             });
         }
 
+        static exists() {
+            return Promise.resolve(false);
+        }
+
         version(v: number) {
             this._version = v;
             return {
@@ -128,6 +132,7 @@ vi.mock("dexie", async () => {
                                 .split("+");
                         }
                     }
+                    return { upgrade: vi.fn() };
                 },
             };
         }
@@ -189,14 +194,14 @@ describe("Query Resource Hooks", () => {
     let wrapper: ({ children }: { children: ReactNode }) => JSX.Element;
 
     beforeEach(async () => {
-        query = new Query();
+        queryClient = createTestQueryClient();
+        wrapper = createWrapper(queryClient);
+        query = new Query({ queryClient });
         resource = query.createResource<TestEntity, string>({
             name: "test",
             baseUrl: "/api/test",
         });
         await query.initialize();
-        queryClient = createTestQueryClient();
-        wrapper = createWrapper(queryClient);
     });
 
     afterEach(() => {
@@ -216,7 +221,10 @@ describe("Query Resource Hooks", () => {
 
             await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-            expect(mockedApiRequest).toHaveBeenCalledWith("/api/test/1");
+            expect(mockedApiRequest).toHaveBeenCalledWith("/api/test/1", {
+                signal: expect.any(AbortSignal),
+                timeout: 30_000,
+            });
             expect(result.current.data).toEqual(testItem);
 
             const table = query.getTable("test");
@@ -251,7 +259,10 @@ describe("Query Resource Hooks", () => {
 
             await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-            expect(mockedApiRequest).toHaveBeenCalledWith("/api/test");
+            expect(mockedApiRequest).toHaveBeenCalledWith("/api/test", {
+                signal: expect.any(AbortSignal),
+                timeout: 30_000,
+            });
             expect(result.current.data).toEqual(testItems);
 
             const table = query.getTable("test");
@@ -277,6 +288,7 @@ describe("Query Resource Hooks", () => {
             expect(mockedApiRequest).toHaveBeenCalledWith("/api/test", {
                 method: "POST",
                 body: JSON.stringify(newItem),
+                timeout: 30_000,
             });
 
             const table = query.getTable("test");
@@ -304,16 +316,15 @@ describe("Query Resource Hooks with Composite Keys", () => {
     type CompositeId = Pick<CompositeKeyEntity, "spaceId" | "tagId">;
 
     beforeEach(async () => {
-        query = new Query();
+        queryClient = createTestQueryClient();
+        wrapper = createWrapper(queryClient);
+        query = new Query({ queryClient });
         resource = query.createResource<CompositeKeyEntity, CompositeId>({
             name: "composite",
             baseUrl: "/api/composite",
             keyFields: ["spaceId", "tagId"],
         });
         await query.initialize();
-
-        queryClient = createTestQueryClient();
-        wrapper = createWrapper(queryClient);
     });
 
     afterEach(() => {
@@ -334,6 +345,7 @@ describe("Query Resource Hooks with Composite Keys", () => {
 
         expect(mockedApiRequest).toHaveBeenCalledWith("/api/composite/s1/t1", {
             method: "DELETE",
+            timeout: 30_000,
         });
 
         const table = query.getTable("composite");
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { apiRequest } from "./api";
+import { Query } from "./query";
+import type { QueryOptions } from "./types";
+
+vi.mock("./api", () => ({
+    apiRequest: vi.fn(),
+}));
+
+interface Note {
+    id: string;
+    title: string;
+    updatedAt: string;
+}
+
+describe("Query with delta-synced resources", () => {
+    let query: Query;
+    const createQuery = (options: QueryOptions = {}) => {
+        query = new Query({
+            dbName: `SyncQueryDB-${Math.random()}`,
+            ...options,
+        });
+        return query;
+    };
+
+    beforeEach(() => {
+        vi.mocked(apiRequest).mockReset();
+    });
+
+    afterEach(async () => {
+        query.tabs.stop();
+        query.close();
+        await query.delete();
+        vi.unstubAllGlobals();
+    });
+
+    it("should keep synced rows through sweeps instead of resyncing", async () => {
+        createQuery();
+        const notes = query.createResource<Note>({
+            name: "notes",
+            baseUrl: "/v1/notes",
+            sync: true,
+            retention: { maxAgeMs: 0, maxRows: 1 },
+        });
+        await query.initialize();
+
+        vi.mocked(apiRequest).mockResolvedValueOnce({
+            data: [
+                { id: "1", title: "One", updatedAt: "2024-05-01" },
+                { id: "2", title: "Two", updatedAt: "2024-05-02" },
+                { id: "3", title: "Three", updatedAt: "2024-05-03" },
+            ],
+            cursor: "c1",
+        });
+        await notes.sync();
+
+        expect(await query.sweeper.sweep()).toBe(0);
+
+        vi.mocked(apiRequest).mockResolvedValueOnce({ data: [] });
+        expect(await notes.list()).toHaveLength(3);
+
+        await vi.waitFor(() => expect(apiRequest).toHaveBeenCalledTimes(2));
+        expect(vi.mocked(apiRequest).mock.calls[1][0]).toBe(
+            "/v1/notes/sync?since=c1"
+        );
+    });
+
+    it("should sync in a lone tab until its leader lock is granted", async () => {
+        let grantLock!: () => void;
+        vi.stubGlobal("navigator", {
+            locks: {
+                request: (
+                    name: string,
+                    _options: unknown,
+                    callback: (lock: { name: string }) => Promise<void>
+                ) =>
+                    new Promise<void>((resolve) => {
+                        grantLock = () => void callback({ name }).then(resolve);
+                    }),
+            },
+        });
+        createQuery({ tabSync: true });
+        const notes = query.createResource<Note>({
+            name: "notes",
+            baseUrl: "/v1/notes",
+            sync: true,
+        });
+        await query.initialize();
+
+        const note = { id: "1", title: "One", updatedAt: "2024-05-01" };
+        vi.mocked(apiRequest)
+            .mockResolvedValueOnce({ data: [note], cursor: "c1" })
+            .mockResolvedValue({ data: [] });
+        expect(await notes.list()).toEqual([note]);
+
+        // The new leader catches up on changes since the local sync
+        grantLock();
+        await query.tabs.whenLeader();
+        await vi.waitFor(() => expect(apiRequest).toHaveBeenCalledTimes(2));
+        expect(vi.mocked(apiRequest).mock.calls[1][0]).toBe(
+            "/v1/notes/sync?since=c1"
+        );
+    });
+});
@@ -1,8 +1,10 @@
+import { QueryClient } from "@tanstack/react-query";
 import Dexie from "dexie";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { createResourceAPI } from "./factories/resource-factory";
 import { Query } from "./query";
+import { queryClient as defaultQueryClient } from "../query-client";
 
 // Mock the resource factory to avoid testing hook generation logic here
 vi.mock("./factories/resource-factory", () => ({
@@ -20,9 +22,14 @@ vi.mock("dexie", async () => {
         _stores: Record<string, string> = {};
         _version = 1;
         _isOpen = false;
+        name: string;
 
         constructor(name: string) {
-            // no-op
+            this.name = name;
+        }
+
+        static exists() {
+            return Promise.resolve(false);
         }
 
         version(v: number) {
@@ -30,7 +37,7 @@ vi.mock("dexie", async () => {
             return {
                 stores: (stores: Record<string, string>) => {
                     Object.assign(this._stores, stores);
-                    return this; // fluent API
+                    return { upgrade: vi.fn() }; // fluent API
                 },
             };
         }
@@ -40,6 +47,7 @@ vi.mock("dexie", async () => {
             return {
                 name,
                 put: vi.fn(),
+                bulkPut: vi.fn(),
                 get: vi.fn(),
             };
         }
@@ -83,6 +91,59 @@ describe("Query Class", () => {
         expect(query.getPendingTables().size).toBe(0);
     });
 
+    describe("database name", () => {
+        it("should use the default database name", () => {
+            expect(query.name).toBe("QuantumQueryDB");
+        });
+
+        it("should use a custom database name and namespace", () => {
+            expect(new Query({ dbName: "NotesApp" }).name).toBe("NotesApp");
+            expect(
+                new Query({ dbName: "NotesApp", namespace: "user-1" }).name
+            ).toBe("NotesApp:user-1");
+        });
+
+        it("should keep registries of separate instances isolated", () => {
+            const alice = new Query({ namespace: "alice" });
+            const bob = new Query({ namespace: "bob" });
+
+            alice.createResource({ name: "notes", baseUrl: "/v1/notes" });
+            bob.createResource({ name: "notes", baseUrl: "/v1/notes" });
+
+            expect(alice.hasTable("notes")).toBe(true);
+            expect(bob.hasTable("notes")).toBe(true);
+            expect(query.hasTable("notes")).toBe(false);
+        });
+    });
+
+    describe("queryClient", () => {
+        it("should default to the shared QueryClient", () => {
+            expect(query.queryClient).toBe(defaultQueryClient);
+        });
+
+        it("should use an injected QueryClient", () => {
+            const queryClient = new QueryClient();
+            expect(new Query({ queryClient }).queryClient).toBe(queryClient);
+        });
+
+        it("should give instances with their own database their own client", () => {
+            const alice = new Query({ namespace: "alice" });
+            const bob = new Query({ namespace: "bob" });
+
+            alice.createResource({ name: "notes", baseUrl: "/v1/notes" });
+            bob.createResource({ name: "notes", baseUrl: "/v1/notes" });
+
+            expect(alice.queryClient).not.toBe(defaultQueryClient);
+            expect(bob.queryClient).not.toBe(alice.queryClient);
+            // Their "notes" resources seed and invalidate separate caches
+            const [aliceOptions, bobOptions] = vi
+                .mocked(createResourceAPI)
+                .mock.calls.map(([, , queryOptions]) => queryOptions);
+            expect(aliceOptions?.queryClient).toBe(alice.queryClient);
+            expect(bobOptions?.queryClient).toBe(bob.queryClient);
+        });
+    });
+
     describe("registerTable", () => {
         it("should register a table in pending state", () => {
             query.registerTable("users", undefined, "/api/users");
@@ -127,6 +188,37 @@ describe("Query Class", () => {
             expect(query.hasTable("users")).toBe(true);
         });
 
+        it("should connect the realtime channel once", async () => {
+            const channel = { subscribe: vi.fn(() => () => {}) };
+            query = new Query({ realtime: channel });
+
+            await query.initialize();
+            await query.initialize();
+
+            expect(channel.subscribe).toHaveBeenCalledTimes(1);
+        });
+
+        it("should only connect the realtime channel in the leader tab", async () => {
+            const channel = { subscribe: vi.fn(() => () => {}) };
+            query = new Query({ realtime: channel, tabSync: true });
+            let elect = () => {};
+            vi.spyOn(query.tabs, "start").mockImplementation(() => {});
+            vi.spyOn(query.tabs, "whenLeader").mockReturnValue(
+                new Promise<void>((resolve) => {
+                    elect = resolve;
+                })
+            );
+
+            await query.initialize();
+            expect(query.tabs.start).toHaveBeenCalled();
+            expect(channel.subscribe).not.toHaveBeenCalled();
+
+            elect();
+            await vi.waitFor(() =>
+                expect(channel.subscribe).toHaveBeenCalledTimes(1)
+            );
+        });
+
         it("should do nothing if no pending tables", async () => {
             await query.initialize();
             expect(query.size).toBe(0);
@@ -148,6 +240,31 @@ describe("Query Class", () => {
         });
     });
 
+    describe("late registration", () => {
+        it("should initialize resources created after initialize()", async () => {
+            await query.initialize();
+            const version = vi.spyOn(query, "version");
+
+            query.createResource({ name: "reports", baseUrl: "/v1/reports" });
+            query.createResource({ name: "charts", baseUrl: "/v1/charts" });
+            expect(query.getTable("reports")).toBeUndefined();
+
+            await vi.waitFor(() =>
+                expect(query.getPendingTables().size).toBe(0)
+            );
+            expect(query.getRegisteredTables()).toEqual(["reports", "charts"]);
+            // Both resources were created in one batch
+            expect(version).toHaveBeenCalledTimes(1);
+        });
+
+        it("should wait for initialize() before the first batch", async () => {
+            query.createResource({ name: "reports", baseUrl: "/v1/reports" });
+            await Promise.resolve();
+
+            expect(query.getPendingTables().has("reports")).toBe(true);
+        });
+    });
+
     describe("getTable", () => {
         it("should return undefined for unknown tables", () => {
             expect(query.getTable("unknown")).toBeUndefined();
@@ -185,11 +302,73 @@ describe("Query Class", () => {
             // Verify delegation
             expect(createResourceAPI).toHaveBeenCalledWith(
                 config,
-                expect.any(Object) // expecting the registry instance
+                expect.any(Object), // expecting the registry instance
+                { timeout: 30_000, queryClient: defaultQueryClient }, // default query options
+                query.outbox,
+                query.sweeper,
+                query.syncCursors,
+                query.realtime,
+                undefined // tab sync is opt-in
             );
             expect(resource).toBeDefined();
         });
 
+        it("should register the resource's secondary indexes", () => {
+            query.createResource({
+                name: "notes",
+                baseUrl: "/v1/notes",
+                indexes: ["status", { fields: "tags", multiEntry: true }],
+            });
+
+            expect(query.getPendingTables().get("notes")?.indexes).toEqual([
+                "status",
+                { fields: "tags", multiEntry: true },
+            ]);
+        });
+
+        it("should reject invalid index definitions", () => {
+            expect(() =>
+                query.createResource({
+                    name: "notes",
+                    baseUrl: "/v1/notes",
+                    indexes: [{ fields: ["a", "b"], multiEntry: true }],
+                })
+            ).toThrowError(/can't be multi-entry/);
+        });
+
+        it("should register the outbox table for offline resources", () => {
+            query.createResource({ name: "a", baseUrl: "/a", offline: true });
+            query.createResource({ name: "b", baseUrl: "/b", offline: true });
+
+            expect(query.hasTable("_outbox")).toBe(true);
+            expect(query.getPendingTables().get("_outbox")?.schema).toBe(
+                "++seq, resource, status"
+            );
+        });
+
+        it("should register the retention table for resources with a retention policy", () => {
+            query.createResource({ name: "a", baseUrl: "/a" });
+            expect(query.hasTable("_retention")).toBe(false);
+
+            query.createResource({
+                name: "b",
+                baseUrl: "/b",
+                retention: { maxRows: 100 },
+            });
+
+            expect(query.getPendingTables().get("_retention")?.schema).toBe(
+                "[resource+rowKey], resource"
+            );
+        });
+
+        it("should register the sync cursor table for delta-synced resources", () => {
+            query.createResource({ name: "a", baseUrl: "/a", sync: true });
+
+            expect(query.getPendingTables().get("_sync")?.schema).toBe(
+                "resource"
+            );
+        });
+
         it("should fail if resource name is duplicate", () => {
             query.createResource({ name: "dup", baseUrl: "/1" });
 
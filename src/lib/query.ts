@@ -8,11 +8,51 @@
  * Resources will lazy-load their tables from the cache when needed.
  */
 
-import Dexie, { type Table } from "dexie";
+import { QueryClient } from "@tanstack/react-query";
+import Dexie, { type IndexableType, type Table } from "dexie";
 
-import { TableRegistry } from "./core/table-registry";
+import { queryClient as defaultQueryClient } from "../query-client";
+import {
+    CacheSweeper,
+    RETENTION_SCHEMA,
+    RETENTION_TABLE,
+    type RetentionEntry,
+} from "./core/cache-sweeper";
+import {
+    Outbox,
+    OUTBOX_SCHEMA,
+    OUTBOX_TABLE,
+    type OutboxEntry,
+} from "./core/outbox";
+import { buildDexieKey } from "./core/id-utils";
+import { Realtime } from "./core/realtime";
+import {
+    SYNC_SCHEMA,
+    SYNC_TABLE,
+    SyncCursors,
+    type SyncCursor,
+} from "./core/sync-cursors";
+import { TabSync } from "./core/tab-sync";
+import { TableRegistry, type TableOptions } from "./core/table-registry";
 import { createResourceAPI } from "./factories/resource-factory";
-import type { ResourceAPI, ResourceConfig } from "./types";
+import type { QueryOptions, ResourceAPI, ResourceConfig } from "./types";
+
+/** Default request timeout applied to resources that don't set their own */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Default time between cache sweeps of resources with a retention policy */
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+/** Default IndexedDB database name */
+const DEFAULT_DB_NAME = "QuantumQueryDB";
+
+/**
+ * Resolves the IndexedDB database name from the Query options.
+ */
+function getDatabaseName({ dbName, namespace }: QueryOptions): string {
+    const name = dbName ?? DEFAULT_DB_NAME;
+    return namespace ? `${name}:${namespace}` : name;
+}
 
 /**
  * Unified query cache class that manages both resource configuration and database operations.
@@ -46,13 +86,92 @@ import type { ResourceAPI, ResourceConfig } from "./types";
  */
 export class Query extends Dexie {
     private registry: TableRegistry;
+    private options: QueryOptions;
+    private initialized = false;
+    private scheduledInitialization: Promise<void> | null = null;
+    private realtimeConnected = false;
 
-    constructor() {
-        super("QuantumQueryDB");
-        this.version(1).stores({
-            // Initial empty schema - tables will be added dynamically
-        });
+    /**
+     * QueryClient used by hooks, cache seeding and invalidations: the one passed
+     * in the options, else the exported `queryClient` for the default database,
+     * else a client of this instance (so instances with their own database
+     * never share query cache entries).
+     */
+    readonly queryClient: QueryClient;
+
+    /**
+     * Mutations of offline-enabled resources that are waiting to be sent,
+     * or that the server rejected during replay.
+     */
+    readonly outbox: Outbox;
+
+    /**
+     * Evicts cached rows of resources with a retention policy.
+     * Sweeps periodically once the database is initialized.
+     */
+    readonly sweeper: CacheSweeper;
+
+    /**
+     * High-water marks of delta-synced resources.
+     * Reset a resource's cursor to make its next sync a full one.
+     */
+    readonly syncCursors: SyncCursors;
+
+    /**
+     * Applies server-pushed change events to resources.
+     * Connects the `realtime` channel from the options on initialize.
+     */
+    readonly realtime: Realtime;
+
+    /**
+     * Shares cache changes with the app's other tabs and elects the tab that
+     * runs background work. Only started when the `tabSync` option is set.
+     */
+    readonly tabs: TabSync;
+
+    /**
+     * @param options - Optional database name/namespace and defaults shared by all
+     *   resources (e.g., transport, timeout)
+     */
+    constructor(options: QueryOptions = {}) {
+        super(getDatabaseName(options));
+        this.queryClient =
+            options.queryClient ??
+            (getDatabaseName(options) === DEFAULT_DB_NAME
+                ? defaultQueryClient
+                : new QueryClient());
+        this.options = {
+            timeout: DEFAULT_REQUEST_TIMEOUT_MS,
+            ...options,
+            queryClient: this.queryClient,
+        };
         this.registry = new TableRegistry(this);
+        this.realtime = new Realtime();
+        this.tabs = new TabSync(`fetchling:${getDatabaseName(options)}`);
+        this.syncCursors = new SyncCursors(() =>
+            this.registry.getTable<SyncCursor, string>(SYNC_TABLE)
+        );
+        this.sweeper = new CacheSweeper(
+            () =>
+                this.registry.getTable<RetentionEntry, IndexableType>(
+                    RETENTION_TABLE
+                ),
+            {
+                getOutboxTable: () =>
+                    this.registry.getTable<OutboxEntry, number>(OUTBOX_TABLE),
+            }
+        );
+        this.outbox = new Outbox(
+            () => this.registry.getTable<OutboxEntry, number>(OUTBOX_TABLE),
+            {
+                // Replayed entries changed the table behind the query cache
+                onSettled: (entry) => {
+                    void this.queryClient.invalidateQueries({
+                        queryKey: [entry.resource],
+                    });
+                },
+            }
+        );
     }
 
     /**
@@ -63,13 +182,20 @@ export class Query extends Dexie {
      * @param name - The resource/table name
      * @param keyFields - Optional array of field names for composite primary key
      * @param baseUrl - The base URL for API requests
+     * @param options - Optional secondary indexes, schema version and migration
      */
     registerTable(
         name: string,
         keyFields: string[] | undefined,
-        baseUrl: string
+        baseUrl: string,
+        options: Pick<TableOptions, "indexes" | "version" | "migrate"> = {}
     ): void {
-        this.registry.registerTable(name, keyFields, baseUrl);
+        this.registry.registerTable(name, keyFields, baseUrl, options);
+
+        // Tables registered after initialize() are created in the next batch
+        if (this.initialized) {
+            this.scheduleInitialization();
+        }
     }
 
     /**
@@ -78,6 +204,12 @@ export class Query extends Dexie {
      * This method should be called once after all resources have been created.
      * It performs a single batch database operation to create all tables efficiently.
      * Resources will lazy-load their tables from the cache when needed.
+     * Resources created afterwards (e.g., in code-split routes) are initialized
+     * automatically; await their `ready` promise before using them.
+     * If any resource is offline-enabled, the outbox starts replaying queued mutations.
+     * If any resource has a retention policy, the cache sweeper starts.
+     * The `realtime` channel from the options, if any, is connected once.
+     * With `tabSync`, this background work only runs in the leader tab.
      *
      * @returns Promise that resolves when initialization is complete
      *
@@ -100,7 +232,34 @@ export class Query extends Dexie {
      * ```
      */
     async initialize(): Promise<void> {
+        this.initialized = true;
         await this.registry.initializeAll();
+
+        if (this.options.tabSync) {
+            this.tabs.start();
+            void this.tabs.whenLeader().then(() => this.startBackgroundWork());
+        } else {
+            this.startBackgroundWork();
+        }
+    }
+
+    /**
+     * Starts the outbox replay, cache sweeps and realtime channel
+     * of the initialized tables.
+     */
+    private startBackgroundWork(): void {
+        if (this.registry.getTable(OUTBOX_TABLE)) {
+            this.outbox.start();
+        }
+        if (this.registry.getTable(RETENTION_TABLE)) {
+            this.sweeper.start(
+                this.options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS
+            );
+        }
+        if (this.options.realtime && !this.realtimeConnected) {
+            this.realtimeConnected = true;
+            this.realtime.connect(this.options.realtime);
+        }
     }
 
     /**
@@ -187,13 +346,76 @@ export class Query extends Dexie {
     createResource<T, ID = string>(
         config: ResourceConfig<T, ID>
     ): ResourceAPI<T, ID> {
-        const { name, baseUrl, keyFields } = config;
+        const { name, baseUrl, keyFields, indexes, version, migrate } = config;
 
         // Register table configuration
-        this.registerTable(name, keyFields, baseUrl);
+        this.registerTable(name, keyFields, baseUrl, {
+            indexes,
+            version,
+            migrate,
+        });
+
+        // Offline resources share one outbox table
+        if (config.offline && !this.registry.hasTable(OUTBOX_TABLE)) {
+            this.registry.registerTable(OUTBOX_TABLE, undefined, "", {
+                schema: OUTBOX_SCHEMA,
+            });
+        }
+
+        // Resources with a retention policy share one metadata table. Delta
+        // syncs wouldn't bring evicted rows back, so synced tables keep every row.
+        if (config.retention && !config.sync) {
+            if (!this.registry.hasTable(RETENTION_TABLE)) {
+                this.registry.registerTable(RETENTION_TABLE, undefined, "", {
+                    schema: RETENTION_SCHEMA,
+                });
+            }
+            this.sweeper.register(
+                name,
+                config.retention,
+                () => this.registry.getTable(name),
+                (id) => buildDexieKey(id, keyFields) as IndexableType
+            );
+        }
+
+        // Delta-synced resources share one cursor table
+        if (config.sync && !this.registry.hasTable(SYNC_TABLE)) {
+            this.registry.registerTable(SYNC_TABLE, undefined, "", {
+                schema: SYNC_SCHEMA,
+            });
+        }
 
         // Create and return complete resource API via factory
-        return createResourceAPI(config, this.registry);
+        return createResourceAPI(
+            config,
+            this.registry,
+            this.options,
+            this.outbox,
+            this.sweeper,
+            this.syncCursors,
+            this.realtime,
+            this.options.tabSync ? this.tabs : undefined
+        );
+    }
+
+    /**
+     * Initializes late registrations after the current synchronous work,
+     * so resources created together (e.g., by one route module) share one upgrade.
+     */
+    private scheduleInitialization(): void {
+        if (this.scheduledInitialization) {
+            return;
+        }
+
+        this.scheduledInitialization = Promise.resolve().then(async () => {
+            this.scheduledInitialization = null;
+            try {
+                await this.initialize();
+            } catch (err) {
+                // The resources' `ready` promises reject with the error
+                console.error(`[Query] Failed to initialize resources: `, err);
+            }
+        });
     }
 }
 
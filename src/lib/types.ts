@@ -1,9 +1,25 @@
 import type {
+    InfiniteData,
+    QueryClient,
+    UseInfiniteQueryOptions,
+    UseInfiniteQueryResult,
     UseMutationResult,
     UseQueryOptions,
     UseQueryResult,
 } from "@tanstack/react-query";
-import type { Table } from "dexie";
+import type { Table, Transaction } from "dexie";
+
+import type {
+    ApiInterceptor,
+    TokenGetter,
+    TokenRefresher,
+    Transport,
+} from "./api";
+import type { RetentionPolicy } from "./core/cache-sweeper";
+import type { FilterDialect } from "./core/filter-dialect";
+import type { RealtimeChannel } from "./core/realtime";
+import type { ResponseAdapter } from "./core/response-adapter";
+import type { RetryPolicy } from "./core/retry";
 
 /**
  * Supported key types for resources.
@@ -59,16 +75,505 @@ export interface ResourceConfig<T, ID = string> {
      * ```
      */
     keyFields?: Array<keyof T & string>;
+    /**
+     * Optional: Secondary indexes of the resource's table.
+     * `list()` answers filter params on indexed fields with index lookups
+     * instead of scanning the whole table. Indexed fields should hold strings
+     * or numbers; booleans and objects aren't indexed by IndexedDB.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "notes",
+     *   baseUrl: "/v1/notes",
+     *   indexes: [
+     *     "status",                               // simple
+     *     ["spaceId", "status"],                  // compound
+     *     { fields: "tags", multiEntry: true },   // one entry per array element
+     *     { fields: "slug", unique: true },       // unique
+     *   ]
+     * }
+     * // list({ spaceId: "s1", status: "open" }) reads the [spaceId+status] index
+     * ```
+     */
+    indexes?: IndexDefinition[];
+    /**
+     * Optional: Schema version of the resource's rows (default: 1).
+     * Raise it when the entity shape changes, together with `migrate`.
+     * The database version is derived from these definitions, so reloads
+     * don't upgrade the database unless a resource changed.
+     */
+    version?: number;
+    /**
+     * Optional: Upgrades rows stored with an older schema version.
+     * Runs inside the database upgrade transaction when `version` is higher
+     * than the version the rows were stored with. Only use the transaction's
+     * tables (e.g., `tx.table("notes")`) and don't await other promises.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "notes",
+     *   baseUrl: "/v1/notes",
+     *   version: 2,
+     *   migrate: async (fromVersion, tx) => {
+     *     if (fromVersion < 2) {
+     *       // v2 split `title` out of `body`
+     *       await tx.table("notes").toCollection().modify((note) => {
+     *         note.title = note.body.split("\n")[0];
+     *       });
+     *     }
+     *   }
+     * }
+     * ```
+     */
+    migrate?: SchemaMigration;
+    /**
+     * Optional: Transport used for this resource's API requests.
+     * Overrides the transport configured on the Query instance.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "invoices",
+     *   baseUrl: "/v1/invoices",
+     *   transport: createFetchTransport({ baseUrl: "https://billing.example.com" })
+     * }
+     * ```
+     */
+    transport?: Transport;
+    /**
+     * Optional: Query-string syntax of structured filters sent to the API,
+     * overriding the Query's (default: `bracketDialect`, e.g., `price[gte]=10`).
+     */
+    filterDialect?: FilterDialect;
+    /**
+     * Optional: Reads items and page metadata from this resource's responses
+     * (default: `dataEnvelope`, i.e. `{ data: T }` and `{ data: T[], meta }`).
+     * The delta sync endpoint keeps its own format.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "tickets",
+     *   baseUrl: "/api/tickets",
+     *   // { results: [...], count: 42 }
+     *   response: createEnvelopeAdapter({ list: "results", total: "count" })
+     * }
+     * ```
+     */
+    response?: ResponseAdapter;
+    /**
+     * Optional: Interceptors applied to this resource's API requests,
+     * after the globally registered ones (see `addInterceptor`).
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "orders",
+     *   baseUrl: "/v1/orders",
+     *   interceptors: [{
+     *     onRequest: ({ url, init }) => ({
+     *       url,
+     *       init: { ...init, headers: { ...init.headers, "X-Tenant-Id": tenantId } }
+     *     })
+     *   }]
+     * }
+     * ```
+     */
+    interceptors?: ApiInterceptor[];
+    /**
+     * Optional: Retry policy for this resource's network calls.
+     * Applies to getById, list, create, update and remove.
+     * If not provided, each request is attempted once.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "reports",
+     *   baseUrl: "/v1/reports",
+     *   retry: { maxAttempts: 4, retryOnStatus: [429, 503] }
+     * }
+     * ```
+     */
+    retry?: RetryPolicy;
+    /**
+     * Optional: Request timeout in milliseconds for this resource.
+     * Overrides the Query's default; use 0 to disable.
+     */
+    timeout?: number;
+    /**
+     * Optional: How the list endpoint paginates. Used by `listPage`.
+     * Defaults to cursor pagination.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "events",
+     *   baseUrl: "/v1/events",
+     *   pagination: { type: "offset", pageSize: 50 }
+     * }
+     * // Requests: /v1/events?page=1&limit=50, /v1/events?page=2&limit=50, ...
+     * ```
+     */
+    pagination?: PaginationConfig;
+    /**
+     * Optional: Queue mutations in the Query's outbox when the server can't be reached
+     * (default: false). Queued changes are applied to the local table immediately and
+     * replayed in order once the browser is back online. See `query.outbox`.
+     */
+    offline?: boolean;
+    /**
+     * Optional: Evict cached rows that are too old or over a row limit.
+     * Enforced by the Query's cache sweeper (see `query.sweeper`).
+     * If not provided, rows stay cached until removed or cleared. Ignored for
+     * resources with `sync`, whose delta syncs wouldn't bring evicted rows back.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "messages",
+     *   baseUrl: "/v1/messages",
+     *   retention: { maxAgeMs: 24 * 60 * 60 * 1000, maxRows: 1000 }
+     * }
+     * ```
+     */
+    retention?: RetentionPolicy;
+    /**
+     * Optional: Treat complete `list()` responses as the server's full answer for their
+     * params (default: false). Cached rows that matched the params before the request
+     * but are missing from the response are removed from the local table.
+     *
+     * Responses that report more pages (`meta.nextCursor`, or a `meta.total` above the
+     * number of items) are never reconciled, nor are responses of paginated resources or
+     * of requests with paging params (`cursor`, `page`, `limit`, `offset`). Only enable it
+     * when the list endpoint returns every matching item (no server-side default limit).
+     */
+    reconcile?: boolean;
+    /**
+     * Optional: Keep the local table up to date through a delta endpoint instead of
+     * refetching whole lists (default: false). `list()` then answers from Dexie and
+     * runs `sync()` in the background. Pass `true` to use the default endpoint.
+     *
+     * @example
+     * ```ts
+     * {
+     *   name: "notes",
+     *   baseUrl: "/v1/notes",
+     *   sync: { url: "/v1/notes/changes", param: "updatedSince" }
+     * }
+     * // Requests: /v1/notes/changes, then /v1/notes/changes?updatedSince=<cursor>
+     * ```
+     */
+    sync?: boolean | SyncConfig;
 }
 
 /**
- * Query parameters for list operations.
+ * Upgrades a resource's stored rows from an older schema version.
+ *
+ * @param fromVersion - Schema version the rows were stored with
+ * @param tx - The database upgrade transaction
+ */
+export type SchemaMigration = (
+    fromVersion: number,
+    tx: Transaction
+) => Promise<void> | void;
+
+/**
+ * Secondary index of a resource's table.
+ *
+ * - `"status"`: simple index on one field
+ * - `["spaceId", "status"]`: compound index on several fields
+ * - `{ fields, unique, multiEntry }`: index with options; unique indexes reject
+ *   duplicate values, multi-entry indexes index each element of an array field
+ *   (and can't be compound)
+ */
+export type IndexDefinition =
+    | string
+    | string[]
+    | {
+          /** Indexed field, or fields of a compound index */
+          fields: string | string[];
+          /** Reject rows whose indexed value already exists (default: false) */
+          unique?: boolean;
+          /** Index each element of an array field (default: false) */
+          multiEntry?: boolean;
+      };
+
+/**
+ * Pagination contract of a resource's list endpoint.
+ *
+ * Paginated endpoints respond with `{ data: T[], meta: PageMeta }`, or the
+ * envelope read by the resource's `response` adapter.
+ */
+export interface PaginationConfig {
+    /**
+     * - `"cursor"`: the next page is requested with `meta.nextCursor`
+     * - `"offset"`: pages are requested by 1-based page number
+     */
+    type: "cursor" | "offset";
+    /** Query param carrying the cursor or page number (default: "cursor" or "page") */
+    param?: string;
+    /** Page size sent with every page request */
+    pageSize?: number;
+    /** Query param carrying the page size (default: "limit") */
+    sizeParam?: string;
+}
+
+/**
+ * Pagination metadata returned in the `meta` field of paginated list responses.
  */
-export type ListParams = Record<
-    string,
-    string | number | boolean | string[] | undefined
+export interface PageMeta {
+    /** Cursor for the next page (cursor pagination); null or absent on the last page */
+    nextCursor?: string | null;
+    /** Number of the returned page (offset pagination, 1-based) */
+    page?: number;
+    /** Total number of items matching the query, if the server reports it */
+    total?: number;
+}
+
+/**
+ * Cursor or page number identifying a page.
+ */
+export type PageParam = string | number;
+
+/**
+ * A single page of list results.
+ */
+export interface Page<T> {
+    /** Items on this page */
+    data: T[];
+    /** Pagination metadata reported by the server */
+    meta: PageMeta;
+    /** Param for fetching the following page, or undefined on the last page */
+    nextPageParam?: PageParam;
+}
+
+/**
+ * Delta sync contract of a resource.
+ *
+ * The delta endpoint is called with the cursor of the last sync (omitted on the
+ * first sync) and responds with `{ data: T[], deleted?: ID[], cursor?: string | number }`:
+ * the items changed since the cursor, the IDs deleted since, and the new cursor.
+ */
+export interface SyncConfig {
+    /** URL of the delta endpoint (default: `${baseUrl}/sync`) */
+    url?: string;
+    /** Query param carrying the cursor (default: "since") */
+    param?: string;
+    /** Item field used as the cursor when the response has none (default: "updatedAt") */
+    cursorField?: string;
+}
+
+/**
+ * Changes applied to the local table by a delta sync.
+ */
+export interface SyncResult<T, ID = string> {
+    /** Items created or updated since the previous sync */
+    changed: T[];
+    /** IDs of items deleted since the previous sync */
+    deleted: ID[];
+}
+
+/**
+ * Data held by `useInfiniteList`: the fetched pages and the params they were requested with.
+ * The first page's param is `undefined`.
+ */
+export type InfiniteListData<T> = InfiniteData<Page<T>, PageParam | undefined>;
+
+/**
+ * TanStack Query options accepted by `useInfiniteList`.
+ * Page params are managed by the resource's pagination config.
+ */
+export type InfiniteListOptions<T> = Partial<
+    Omit<
+        UseInfiniteQueryOptions<
+            Page<T>,
+            Error,
+            InfiniteListData<T>,
+            readonly unknown[],
+            PageParam | undefined
+        >,
+        "queryKey" | "queryFn" | "initialPageParam" | "getNextPageParam"
+    >
 >;
 
+/**
+ * Options for creating a Query instance.
+ */
+export interface QueryOptions {
+    /**
+     * Transport used for API requests of all resources created by this Query.
+     * Defaults to the globally configured transport (global fetch).
+     */
+    transport?: Transport;
+    /**
+     * Query-string syntax of structured filters for all resources
+     * (default: `bracketDialect`, e.g., `price[gte]=10`).
+     */
+    filterDialect?: FilterDialect;
+    /**
+     * Default request timeout in milliseconds for all resources (default: 30000).
+     * Timed-out requests throw a TimeoutError. Use 0 to disable.
+     */
+    timeout?: number;
+    /**
+     * Name of the IndexedDB database (default: "QuantumQueryDB").
+     * Give each app on the same origin its own name.
+     */
+    dbName?: string;
+    /**
+     * Optional namespace (e.g., the signed-in user's ID) appended to the database name,
+     * so each namespace gets its own database: `${dbName}:${namespace}`.
+     */
+    namespace?: string;
+    /**
+     * Token source for requests of this Query's resources.
+     * Defaults to the global one set with setTokenGetter.
+     */
+    tokenGetter?: TokenGetter;
+    /**
+     * Token refresher for requests of this Query's resources.
+     * Defaults to the global one set with setTokenRefresher.
+     */
+    tokenRefresher?: TokenRefresher;
+    /**
+     * Interceptors for requests of this Query's resources.
+     * Run after the global interceptors and before each resource's own.
+     */
+    interceptors?: ApiInterceptor[];
+    /**
+     * QueryClient that hooks, cache seeding and invalidations of this Query use.
+     * Pass the client given to your `QueryClientProvider` so they share one cache.
+     * Without it, instances of the default database use the exported
+     * `queryClient`, and instances with their own `dbName` or `namespace` create
+     * their own client, so resources of the same name never share cache entries.
+     */
+    queryClient?: QueryClient;
+    /**
+     * How often the cache sweeper enforces resources' retention policies,
+     * in milliseconds (default: 60000).
+     */
+    sweepIntervalMs?: number;
+    /**
+     * Channel of server-pushed change events, connected by `initialize()`.
+     * Events are written to the targeted resource's table and query cache.
+     * See `query.realtime` to connect channels later.
+     *
+     * @example
+     * ```ts
+     * new Query({ realtime: createEventSourceChannel("/v1/events") })
+     * ```
+     */
+    realtime?: RealtimeChannel;
+    /**
+     * Share cache changes with the app's other tabs (default: false).
+     * Mutations, seeds and syncs are broadcast over a BroadcastChannel, and
+     * receiving tabs refresh their queries from Dexie. One leader tab, elected
+     * with the Web Locks API, replays the outbox, sweeps the cache, listens to
+     * the realtime channel and runs delta syncs.
+     */
+    tabSync?: boolean;
+}
+
+/**
+ * Value compared by a filter operator.
+ */
+export type FilterScalar = string | number | boolean | null;
+
+/**
+ * Operator of a filter condition.
+ */
+export type FilterOperator = keyof FilterCondition;
+
+/**
+ * Structured filter of one field. Every operator set must match (AND).
+ *
+ * Values are compared as strings, except for ranges on number fields, which
+ * compare numerically (ISO dates compare correctly as strings). `null` matches
+ * missing values. `contains` and `startsWith` are case-sensitive.
+ *
+ * @example
+ * ```ts
+ * { price: { gte: 10, lt: 100 }, title: { contains: "draft" } }
+ * ```
+ */
+export interface FilterCondition {
+    /** Equal to; objects are compared deeply (see `FilterObject`) */
+    eq?: FilterScalar | FilterObject;
+    /** Not equal to; objects are compared deeply */
+    ne?: FilterScalar | FilterObject;
+    /** Greater than */
+    gt?: string | number;
+    /** Greater than or equal to */
+    gte?: string | number;
+    /** Less than */
+    lt?: string | number;
+    /** Less than or equal to */
+    lte?: string | number;
+    /** Equal to one of the values */
+    in?: FilterScalar[];
+    /** Equal to none of the values */
+    nin?: FilterScalar[];
+    /** String value containing the text */
+    contains?: string;
+    /** String value starting with the text */
+    startsWith?: string;
+    /** Missing (null or undefined) when true, present when false */
+    isNull?: boolean;
+}
+
+/**
+ * Object value of a list param (or of `eq`/`ne`). It's compared deeply with
+ * the entity's field, or by ID if it's a reference (an object with an `id`).
+ * Objects with an operator key are conditions instead.
+ *
+ * @example
+ * ```ts
+ * { location: { city: "Oslo", country: "NO" }, owner: { id: "u1" } }
+ * ```
+ */
+export interface FilterObject {
+    [field: string]: FilterScalar | FilterScalar[] | FilterObject;
+}
+
+/**
+ * Value of a list param: a plain value (equality), a list of values
+ * (equal to one of them), a structured condition or an object value.
+ */
+export type ListParamValue =
+    | string
+    | number
+    | boolean
+    | string[]
+    | FilterCondition
+    | FilterObject
+    | undefined;
+
+/**
+ * Query parameters for list operations.
+ *
+ * Params filter cached lists (AND logic) and are sent to the server in the
+ * query string. Keys may be dotted paths into nested fields (`owner.team.id`),
+ * and array fields match if any item matches. The `$or` param holds groups of
+ * params, of which at least one must match.
+ *
+ * @example
+ * ```ts
+ * const params: ListParams = {
+ *   status: ["open", "pending"],
+ *   dueAt: { lt: "2024-06-01" },
+ *   "owner.team.id": "t1",
+ *   $or: [{ owner: "me" }, { assignee: "me" }],
+ * };
+ * ```
+ */
+export interface ListParams {
+    [param: string]: ListParamValue | ListParams[];
+    /** Groups of params, at least one of which must match */
+    $or?: ListParams[];
+}
+
 /**
  * Query key factory for a resource.
  */
@@ -79,24 +584,62 @@ export interface QueryKeys<T, ID = string> {
     lists: () => readonly [string, string];
     /** Key for a specific list query with params */
     list: (params?: ListParams) => readonly [string, string, ListParams?];
+    /** Key for an infinite (paginated) list query with params */
+    infinite: (
+        params?: ListParams
+    ) => readonly [string, string, string, ListParams?];
     /** Key for a detail/single item query */
     detail: (id: ID) => readonly [string, string, string | ID];
 }
 
+/**
+ * Per-call options for resource operations.
+ */
+export interface RequestOptions {
+    /**
+     * Signal to cancel the request (e.g., the `signal` TanStack Query passes to `queryFn`).
+     * Aborted fetches never write their results to the Dexie table.
+     */
+    signal?: AbortSignal;
+    /** Timeout in milliseconds for this call, overriding the resource and Query defaults */
+    timeout?: number;
+}
+
 /**
  * Raw CRUD operations (promise-based, for direct use).
  */
 export interface ResourceOperations<T, ID = string> {
     /** Fetch a single item by ID */
-    getById: (id: ID) => Promise<T | null>;
+    getById: (id: ID, options?: RequestOptions) => Promise<T | null>;
     /** Fetch a list of items with optional params */
-    list: (params?: ListParams) => Promise<T[]>;
+    list: (params?: ListParams, options?: RequestOptions) => Promise<T[]>;
+    /**
+     * Fetch a single page of items from the network and persist it to Dexie.
+     * Omit `pageParam` for the first page; pass `page.nextPageParam` for the next one.
+     */
+    listPage: (
+        params?: ListParams,
+        pageParam?: PageParam,
+        options?: RequestOptions
+    ) => Promise<Page<T>>;
     /** Create a new item */
-    create: (data: FlattenRefs<Omit<T, keyof ID>>) => Promise<T>;
+    create: (
+        data: FlattenRefs<Omit<T, keyof ID>>,
+        options?: RequestOptions
+    ) => Promise<T>;
     /** Update an existing item */
-    update: (id: ID, data: Partial<Omit<T, keyof ID>>) => Promise<T>;
+    update: (
+        id: ID,
+        data: Partial<Omit<T, keyof ID>>,
+        options?: RequestOptions
+    ) => Promise<T>;
     /** Delete an item */
-    remove: (id: ID) => Promise<void>;
+    remove: (id: ID, options?: RequestOptions) => Promise<void>;
+    /**
+     * Apply the changes since the last sync from the delta endpoint to Dexie
+     * (resources with `sync` only). Concurrent calls share one request.
+     */
+    sync: (options?: RequestOptions) => Promise<SyncResult<T, ID>>;
 }
 
 /**
@@ -177,16 +720,116 @@ export interface ResourceHooks<T, ID = string> {
         >
     ) => UseQueryResult<T[]>;
 
-    /** Hook for creating items */
-    useCreate: () => UseMutationResult<T, Error, Omit<T, keyof ID>>;
-    /** Hook for updating items */
-    useUpdate: () => UseMutationResult<
+    /**
+     * Hook to read a single item live from Dexie (with network revalidation).
+     *
+     * Behaves like `useGetById`, but `data` follows the Dexie row: any write to
+     * the resource's table (e.g., by `useDebouncedUpdate` or `resource.table.put`)
+     * re-renders the component without a refetch.
+     *
+     * @param id - The resource ID (disabled if undefined)
+     * @param options - Optional TanStack Query options (enabled, staleTime, etc.)
+     *
+     * @example
+     * ```tsx
+     * const { data: note } = notes.useLiveGetById(noteId);
+     * ```
+     */
+    useLiveGetById: (
+        id: ID | undefined,
+        options?: Partial<
+            Omit<UseQueryOptions<T | undefined, Error>, "queryKey" | "queryFn">
+        >
+    ) => UseQueryResult<T | undefined>;
+
+    /**
+     * Hook to read a list live from Dexie (with network revalidation).
+     *
+     * Behaves like `useList`, but `data` holds the Dexie rows matching the params
+     * and updates whenever the resource's table changes.
+     *
+     * @param params - Optional filter params (same matching as cached lists)
+     * @param options - Optional TanStack Query options (enabled, staleTime, etc.)
+     *
+     * @example
+     * ```tsx
+     * const { data: blocks } = blocksResource.useLiveList({ noteId });
+     * ```
+     */
+    useLiveList: (
+        params?: ListParams,
+        options?: Partial<
+            Omit<UseQueryOptions<T[], Error>, "queryKey" | "queryFn">
+        >
+    ) => UseQueryResult<T[]>;
+
+    /**
+     * Hook to fetch a list page by page (for infinite scrolling).
+     *
+     * The first page is served instantly from Dexie while the network page loads;
+     * subsequent pages are fetched with `listPage` using the resource's pagination config.
+     *
+     * @param params - Optional query parameters for filtering
+     * @param options - Optional TanStack Query options (enabled, staleTime, etc.)
+     *
+     * **Auto-enabling:** Same rules as `useList`.
+     *
+     * @example
+     * ```tsx
+     * const { data, fetchNextPage, hasNextPage } = messages.useInfiniteList({
+     *   channel: channelId,
+     * });
+     * const items = data?.pages.flatMap((page) => page.data) ?? [];
+     * ```
+     */
+    useInfiniteList: (
+        params?: ListParams,
+        options?: InfiniteListOptions<T>
+    ) => UseInfiniteQueryResult<InfiniteListData<T>>;
+
+    /**
+     * Hook for creating items.
+     *
+     * With `{ optimistic: true }`, the new item is appended to matching cached lists
+     * before the server responds. Items that already carry their key (client-generated IDs)
+     * are also written to the detail query and Dexie.
+     */
+    useCreate: (
+        options?: MutationHookOptions
+    ) => UseMutationResult<T, Error, Omit<T, keyof ID>>;
+    /**
+     * Hook for updating items.
+     *
+     * With `{ optimistic: true }`, the detail query, cached lists and the Dexie row
+     * are patched before the server responds.
+     */
+    useUpdate: (
+        options?: MutationHookOptions
+    ) => UseMutationResult<
         T,
         Error,
         { id: ID; data: Partial<Omit<T, keyof ID>> }
     >;
-    /** Hook for deleting items */
-    useDelete: () => UseMutationResult<void, Error, ID>;
+    /**
+     * Hook for deleting items.
+     *
+     * With `{ optimistic: true }`, the item is removed from cached lists, the detail
+     * query and Dexie before the server responds.
+     */
+    useDelete: (
+        options?: MutationHookOptions
+    ) => UseMutationResult<void, Error, ID>;
+}
+
+/**
+ * Options for the mutation hooks (`useCreate`, `useUpdate`, `useDelete`).
+ */
+export interface MutationHookOptions {
+    /**
+     * Apply the change to cached queries and the Dexie table immediately,
+     * and roll both back from a snapshot if the request fails (default: false).
+     */
+    optimistic?: boolean;
 }
 
 /**
@@ -200,6 +843,22 @@ export interface ResourceAPI<T, ID = string>
     name: string;
     /** Dexie table for local storage (throws if not initialized) */
     table: Table<T, ID>;
+    /**
+     * Resolves once the resource's table has been created: after `query.initialize()`,
+     * or, for resources created later, after their automatic initialization.
+     * Rejects if creating the table failed.
+     *
+     * @example
+     * ```ts
+     * // routes/reports.tsx (code-split)
+     * export const reports = query.createResource<Report>({ name: "reports", baseUrl: "/v1/reports" });
+     * export const loader = async () => {
+     *   await reports.ready;
+     *   return reports.list();
+     * };
+     * ```
+     */
+    ready: Promise<void>;
     /** Query key factory */
     queryKeys: QueryKeys<T, ID>;
 }
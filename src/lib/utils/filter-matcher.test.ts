@@ -156,6 +156,187 @@ describe("matchesFilter", () => {
 
         expect(matchesFilter(entity, params)).toBe(false);
     });
+
+    describe("operators", () => {
+        const item = {
+            id: "1",
+            title: "Draft: roadmap",
+            price: 25,
+            dueAt: "2024-05-10",
+            owner: { id: "u1" },
+            archivedAt: null,
+        };
+
+        it("should compare ranges numerically for number fields", () => {
+            expect(matchesFilter(item, { price: { gte: 25, lt: 100 } })).toBe(
+                true
+            );
+            expect(matchesFilter(item, { price: { gt: "9" } })).toBe(true);
+            expect(matchesFilter(item, { price: { lte: 24 } })).toBe(false);
+        });
+
+        it("should compare ranges of strings in order (e.g., ISO dates)", () => {
+            expect(
+                matchesFilter(item, {
+                    dueAt: { gte: "2024-05-01", lt: "2024-06-01" },
+                })
+            ).toBe(true);
+            expect(matchesFilter(item, { missing: { gt: 0 } })).toBe(false);
+        });
+
+        it("should support equality, membership and references", () => {
+            expect(matchesFilter(item, { price: { eq: "25" } })).toBe(true);
+            expect(matchesFilter(item, { price: { ne: 25 } })).toBe(false);
+            expect(matchesFilter(item, { owner: { in: ["u1", "u2"] } })).toBe(
+                true
+            );
+            expect(matchesFilter(item, { owner: { nin: ["u1"] } })).toBe(false);
+        });
+
+        it("should support text and null checks", () => {
+            expect(matchesFilter(item, { title: { contains: "road" } })).toBe(
+                true
+            );
+            expect(matchesFilter(item, { title: { startsWith: "road" } })).toBe(
+                false
+            );
+            expect(matchesFilter(item, { archivedAt: { isNull: true } })).toBe(
+                true
+            );
+            expect(matchesFilter(item, { deletedAt: { eq: null } })).toBe(true);
+            expect(matchesFilter(item, { owner: { isNull: true } })).toBe(
+                false
+            );
+        });
+
+        it("should throw on unknown operators", () => {
+            expect(() =>
+                matchesFilter(item, { price: { gte: 0, between: 1 } as never })
+            ).toThrowError(/Unknown filter operator "between"/);
+        });
+    });
+
+    describe("nested fields", () => {
+        const item = {
+            id: "1",
+            owner: { id: "u1", team: { id: "t1", name: "Core" } },
+            meta: { status: "open", flags: { pinned: true } },
+            tags: ["urgent", "work"],
+            labels: [{ name: "bug" }, { name: "ui" }],
+            watchers: [{ id: "u2" }, { id: "u3" }],
+            location: { city: "Oslo", country: "NO" },
+        };
+
+        it("should read dotted paths", () => {
+            expect(matchesFilter(item, { "owner.team.id": "t1" })).toBe(true);
+            expect(matchesFilter(item, { "meta.status": { ne: "open" } })).toBe(
+                false
+            );
+            expect(matchesFilter(item, { "meta.flags.pinned": true })).toBe(
+                true
+            );
+            expect(matchesFilter(item, { "owner.missing.id": "t1" })).toBe(
+                false
+            );
+            expect(matchesFilter({ "a.b": 1 }, { "a.b": 1 })).toBe(true);
+        });
+
+        it("should match array fields containing the value", () => {
+            expect(matchesFilter(item, { tags: "urgent" })).toBe(true);
+            expect(matchesFilter(item, { tags: ["home", "work"] })).toBe(true);
+            expect(matchesFilter(item, { tags: "home" })).toBe(false);
+            expect(matchesFilter(item, { watchers: "u3" })).toBe(true);
+            expect(matchesFilter(item, { "labels.name": "ui" })).toBe(true);
+            expect(
+                matchesFilter(item, { "labels.name": { startsWith: "b" } })
+            ).toBe(true);
+        });
+
+        it("should require negated operators to hold for every item", () => {
+            expect(matchesFilter(item, { tags: { ne: "urgent" } })).toBe(false);
+            expect(matchesFilter(item, { tags: { nin: ["home"] } })).toBe(true);
+            expect(matchesFilter(item, { tags: { isNull: false } })).toBe(true);
+        });
+
+        it("should compare references by ID and other objects deeply", () => {
+            expect(matchesFilter(item, { owner: "u1" })).toBe(true);
+            expect(matchesFilter(item, { owner: { id: "u1" } })).toBe(true);
+            expect(
+                matchesFilter({ owner: "u1" }, { owner: { id: "u1" } })
+            ).toBe(true);
+            expect(
+                matchesFilter(item, {
+                    location: { country: "NO", city: "Oslo" },
+                })
+            ).toBe(true);
+            expect(matchesFilter(item, { location: { city: "Oslo" } })).toBe(
+                false
+            );
+            expect(matchesFilter(item, { labels: { name: "ui" } })).toBe(true);
+            expect(matchesFilter(item, { meta: "open" })).toBe(false);
+        });
+
+        it("should compare eq and ne objects deeply", () => {
+            const location = { city: "Oslo", country: "NO" };
+            expect(matchesFilter(item, { location: { eq: location } })).toBe(
+                true
+            );
+            expect(
+                matchesFilter(item, { location: { eq: { city: "Oslo" } } })
+            ).toBe(false);
+            expect(
+                matchesFilter(item, { location: { ne: { city: "Oslo" } } })
+            ).toBe(true);
+            expect(matchesFilter(item, { location: { ne: location } })).toBe(
+                false
+            );
+        });
+
+        it("should compare nested arrays item by item", () => {
+            const entity = { meta: { tags: ["a", "b"] } };
+            expect(matchesFilter(entity, { meta: { tags: ["a", "b"] } })).toBe(
+                true
+            );
+            expect(matchesFilter(entity, { meta: { tags: ["a"] } })).toBe(
+                false
+            );
+            expect(
+                matchesFilter(entity, { meta: { eq: { tags: ["a", "b"] } } })
+            ).toBe(true);
+        });
+
+        it("should throw on conditions mixing operators with other keys", () => {
+            expect(() =>
+                matchesFilter(item, {
+                    location: { eq: "Oslo", city: "Oslo" },
+                } as never)
+            ).toThrowError(/Unknown filter operator "city"/);
+            expect(
+                matchesFilter(item, { location: { constructor: "Oslo" } })
+            ).toBe(false);
+        });
+    });
+
+    describe("$or groups", () => {
+        const item = { id: "1", owner: "u2", assignee: "u1", status: "open" };
+
+        it("should match when any group matches", () => {
+            expect(
+                matchesFilter(item, {
+                    status: "open",
+                    $or: [{ owner: "u1" }, { assignee: "u1" }],
+                })
+            ).toBe(true);
+        });
+
+        it("should not match when no group matches", () => {
+            expect(
+                matchesFilter(item, {
+                    $or: [{ owner: "u1" }, { status: { ne: "open" } }],
+                })
+            ).toBe(false);
+        });
+    });
 });
 
 describe("filterEntities", () => {
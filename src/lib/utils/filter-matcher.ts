@@ -1,11 +1,231 @@
-import type { ListParams } from "../types";
+import type {
+    FilterCondition,
+    FilterOperator,
+    FilterScalar,
+    ListParams,
+} from "../types";
+import { getValueAtPath } from "./paths";
 
-// Following fields should not be used for filtering as they are special query params meant for the API.
+// Following fields should not be used for filtering: they sort and project the list (see list-shaping.ts).
 const SPECIAL_PARAMS = new Set<string>(["sort", "fields"]);
 
+/** Param holding groups of params, at least one of which must match */
+export const OR_PARAM = "$or";
+
+/**
+ * Checks whether a param value is a structured condition (e.g., `{ gte: 10 }`).
+ * Objects without any operator key are plain values, compared deeply.
+ */
+export function isFilterCondition(value: unknown): value is FilterCondition {
+    return (
+        isObject(value) &&
+        Object.keys(value).some((key) => Object.hasOwn(OPERATORS, key))
+    );
+}
+
+/**
+ * Checks that a condition key is a filter operator, so a condition mixing
+ * operators with other keys (e.g., a typo like `{ gte: 1, lte: 9, lt3: 5 }`)
+ * fails. Only the operators' own keys count, not inherited ones such as
+ * `constructor`.
+ *
+ * @throws {Error} If the key isn't an operator
+ */
+export function assertFilterOperator(
+    key: string
+): asserts key is FilterOperator {
+    if (!Object.hasOwn(OPERATORS, key)) {
+        throw new Error(`Unknown filter operator "${key}".`);
+    }
+}
+
+/**
+ * Checks whether a value is a non-array object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is missing (null or undefined).
+ */
+function isMissing(value: unknown): boolean {
+    return value === null || value === undefined;
+}
+
+/**
+ * Compares values as strings; a null expected value matches missing values.
+ */
+function isEqual(actual: unknown, expected: FilterScalar): boolean {
+    if (expected === null) {
+        return isMissing(actual);
+    }
+    return !isMissing(actual) && String(actual) === String(expected);
+}
+
+/**
+ * Orders a value against a range bound: numerically for number fields,
+ * by string otherwise. Returns undefined if they can't be ordered.
+ */
+function compare(actual: unknown, bound: string | number): number | undefined {
+    if (isMissing(actual)) {
+        return undefined;
+    }
+    if (typeof actual === "number") {
+        const number = Number(bound);
+        return Number.isNaN(number) ? undefined : actual - number;
+    }
+
+    const text = String(actual);
+    const boundText = String(bound);
+    return text === boundText ? 0 : text < boundText ? -1 : 1;
+}
+
+/**
+ * Checks a value's order against a range bound; values that can't be
+ * ordered (e.g., missing ones) never match.
+ */
+function isOrdered(
+    actual: unknown,
+    bound: string | number,
+    test: (order: number) => boolean
+): boolean {
+    const order = compare(actual, bound);
+    return order !== undefined && test(order);
+}
+
+/**
+ * Evaluates each operator against an entity value.
+ */
+const OPERATORS: {
+    [K in FilterOperator]-?: (
+        actual: unknown,
+        expected: NonNullable<FilterCondition[K]>
+    ) => boolean;
+} = {
+    eq: (actual, expected) => matchesValue(actual, expected),
+    ne: (actual, expected) => !matchesValue(actual, expected),
+    gt: (actual, bound) => isOrdered(actual, bound, (order) => order > 0),
+    gte: (actual, bound) => isOrdered(actual, bound, (order) => order >= 0),
+    lt: (actual, bound) => isOrdered(actual, bound, (order) => order < 0),
+    lte: (actual, bound) => isOrdered(actual, bound, (order) => order <= 0),
+    in: (actual, values) => values.some((value) => isEqual(actual, value)),
+    nin: (actual, values) => !values.some((value) => isEqual(actual, value)),
+    contains: (actual, text) =>
+        typeof actual === "string" && actual.includes(text),
+    startsWith: (actual, text) =>
+        typeof actual === "string" && actual.startsWith(text),
+    isNull: (actual, expected) => isMissing(actual) === expected,
+};
+
+/**
+ * Operators that must hold for every item of an array field (rather than for
+ * at least one).
+ */
+const NEGATED_OPERATORS = new Set<FilterOperator>(["ne", "nin"]);
+
+/**
+ * Checks if an entity value matches every operator of a condition.
+ * References (objects with an `id`) are compared by their ID. On array fields,
+ * an operator matches if any item matches it (`ne` and `nin`: if no item
+ * equals the values); `isNull` checks the field itself.
+ *
+ * @throws {Error} If the condition uses an unknown operator
+ */
+function matchesCondition(
+    actualValue: unknown,
+    condition: FilterCondition
+): boolean {
+    // Check every key first, so a failing operator can't hide a typo
+    const entries = Object.entries(condition);
+    entries.forEach(([operator]) => assertFilterOperator(operator));
+
+    return entries.every(([operator, expected]) => {
+        if (expected === undefined) {
+            return true;
+        }
+
+        const evaluate = OPERATORS[operator as FilterOperator] as (
+            actual: unknown,
+            expected: unknown
+        ) => boolean;
+        // Object values are compared deeply, so only scalars read the ID
+        const matches = (value: unknown) =>
+            evaluate(
+                isObject(expected) ? value : toReferenceId(value),
+                expected
+            );
+        if (Array.isArray(actualValue) && operator !== "isNull") {
+            return NEGATED_OPERATORS.has(operator as FilterOperator)
+                ? actualValue.every(matches)
+                : actualValue.some(matches);
+        }
+        return matches(actualValue);
+    });
+}
+
+/**
+ * Reads the ID of a reference (an object with an `id`); returns other values
+ * as they are.
+ */
+function toReferenceId(value: unknown): unknown {
+    return isObject(value) && "id" in value ? value.id : value;
+}
+
+/**
+ * Compares a value deeply with an expected one: arrays item by item, objects
+ * by their fields (missing and undefined fields are alike), and anything else
+ * as strings, where null matches missing values. A reference (an object with
+ * an `id`) is compared by ID, so `{ id: "u1" }` matches a normalized `"u1"`.
+ */
+function isDeepEqual(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(expected)) {
+        return (
+            Array.isArray(actual) &&
+            actual.length === expected.length &&
+            actual.every((item, index) => isDeepEqual(item, expected[index]))
+        );
+    }
+    if (!isObject(expected)) {
+        return isEqual(toReferenceId(actual), expected as FilterScalar);
+    }
+    if ("id" in expected) {
+        return isDeepEqual(actual, expected.id);
+    }
+    if (!isObject(actual)) {
+        return false;
+    }
+
+    const keys = new Set(
+        [...Object.keys(actual), ...Object.keys(expected)].filter(
+            (key) => actual[key] !== undefined || expected[key] !== undefined
+        )
+    );
+    return [...keys].every((key) => isDeepEqual(actual[key], expected[key]));
+}
+
+/**
+ * Checks if an entity value equals a plain param value or an `eq` value.
+ *
+ * Array fields match if any item matches, unless the expected value is an
+ * array itself. A reference is compared by ID (e.g., `owner: "u1"` matches
+ * `{ id: "u1", name: "Ada" }`); other objects are compared deeply.
+ */
+function matchesValue(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(actual) && !Array.isArray(expected)) {
+        return actual.some((item) => matchesValue(item, expected));
+    }
+    return isDeepEqual(actual, expected);
+}
+
 /**
  * Checks if an entity matches all filter params.
- * Returns true only if ALL params match the entity's properties (AND logic).
+ * Returns true only if ALL params match the entity's properties (AND logic),
+ * and at least one group of the `$or` param matches (if any).
+ *
+ * Keys may be dotted paths into nested objects (e.g., `owner.team.id`);
+ * arrays along the path are searched item by item. Array fields match if any
+ * of their items matches.
  *
  * @param entity - The entity to check
  * @param params - The filter parameters
@@ -17,30 +237,40 @@ export function matchesFilter<T>(entity: T, params: ListParams): boolean {
             continue; // Skip undefined and special params
         }
 
-        const actualValue = (entity as Record<string, unknown>)[key];
-
-        // Handle array params (e.g., tags: ["urgent", "work"])
-        if (Array.isArray(expectedValue)) {
-            // Match if entity value is in the array
-            if (!expectedValue.includes(actualValue as string)) {
+        // Handle OR groups (e.g., $or: [{ owner: "me" }, { assignee: "me" }])
+        if (key === OR_PARAM) {
+            const groups = expectedValue as ListParams[];
+            if (
+                groups.length > 0 &&
+                !groups.some((group) => matchesFilter(entity, group))
+            ) {
                 return false;
             }
+            continue;
         }
-        // Handle object reference params (e.g., type: { id: "1234567" })
-        else if (typeof actualValue === "object" && expectedValue !== null) {
-            // Match if entity value is an object with matching properties
-            const actualObj = actualValue as { id: string };
-            if (String(actualObj.id) !== String(expectedValue)) {
+
+        const actualValue = getValueAtPath(entity, key);
+
+        // Handle structured conditions (e.g., price: { gte: 10, lt: 100 })
+        if (isFilterCondition(expectedValue)) {
+            if (!matchesCondition(actualValue, expectedValue)) {
                 return false;
             }
         }
-        // Handle primitive comparisons
-        else {
-            // Normalize both to strings for comparison (handles number/boolean)
-            if (String(actualValue) !== String(expectedValue)) {
+        // Handle array params (e.g., status: ["open", "pending"])
+        else if (Array.isArray(expectedValue)) {
+            // Match if entity value is in the array
+            if (
+                !expectedValue.some((value) => matchesValue(actualValue, value))
+            ) {
                 return false;
             }
         }
+        // Handle plain values, references (e.g., type: "1234567" or
+        // type: { id: "1234567" }) and nested objects
+        else if (!matchesValue(actualValue, expectedValue)) {
+            return false;
+        }
     }
 
     return true; // All params matched
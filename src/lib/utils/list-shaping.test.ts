@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    mergeProjection,
+    projectEntities,
+    shapeEntities,
+    sortEntities,
+} from "./list-shaping";
+
+interface TestNote {
+    id: string;
+    title: string;
+    rank?: number | null;
+    owner: { id: string; name: string };
+}
+
+const notes: TestNote[] = [
+    { id: "1", title: "b", rank: 2, owner: { id: "u1", name: "Zoe" } },
+    { id: "2", title: "a", rank: 10, owner: { id: "u2", name: "Ada" } },
+    { id: "3", title: "c", rank: null, owner: { id: "u1", name: "Zoe" } },
+    { id: "4", title: "a", rank: 2, owner: { id: "u3", name: "Bob" } },
+];
+
+const ids = (items: TestNote[]) => items.map((item) => item.id);
+
+describe("sortEntities", () => {
+    it("should sort numbers numerically and strings in order", () => {
+        expect(ids(sortEntities(notes, "rank"))).toEqual(["1", "4", "2", "3"]);
+        expect(ids(sortEntities(notes, "title"))).toEqual(["2", "4", "1", "3"]);
+    });
+
+    it("should apply keys in order with both descending notations", () => {
+        expect(ids(sortEntities(notes, "-rank,title"))).toEqual([
+            "2",
+            "4",
+            "1",
+            "3",
+        ]);
+        expect(ids(sortEntities(notes, ["rank:desc", "title:asc"]))).toEqual([
+            "2",
+            "4",
+            "1",
+            "3",
+        ]);
+    });
+
+    it("should sort by nested paths and keep ties in order", () => {
+        expect(ids(sortEntities(notes, "owner.name"))).toEqual([
+            "2",
+            "4",
+            "1",
+            "3",
+        ]);
+    });
+
+    it("should not modify the input", () => {
+        const input = [...notes];
+        sortEntities(input, "-title");
+        expect(input).toEqual(notes);
+    });
+});
+
+describe("projectEntities", () => {
+    it("should keep the listed (nested) fields and the key", () => {
+        expect(projectEntities(notes.slice(0, 1), "title,owner.name")).toEqual([
+            { id: "1", title: "b", owner: { name: "Zoe" } },
+        ]);
+    });
+
+    it("should keep composite key fields", () => {
+        expect(
+            projectEntities(
+                [{ spaceId: "s1", name: "urgent", color: "red" }],
+                ["color"],
+                ["spaceId", "name"]
+            )
+        ).toEqual([{ spaceId: "s1", name: "urgent", color: "red" }]);
+    });
+});
+
+describe("shapeEntities", () => {
+    it("should return entities untouched without sort and fields", () => {
+        expect(shapeEntities(notes, { title: "a" })).toBe(notes);
+    });
+
+    it("should sort before projecting away the sorted field", () => {
+        expect(
+            shapeEntities(notes, { sort: "-rank", fields: "title" })
+        ).toEqual([
+            { id: "2", title: "a" },
+            { id: "1", title: "b" },
+            { id: "4", title: "a" },
+            { id: "3", title: "c" },
+        ]);
+    });
+});
+
+describe("mergeProjection", () => {
+    it("should keep the fields the projection left out", () => {
+        expect(
+            mergeProjection(notes[0], {
+                id: "1",
+                title: "renamed",
+                owner: { name: "Zed" },
+            } as TestNote)
+        ).toEqual({
+            id: "1",
+            title: "renamed",
+            rank: 2,
+            owner: { id: "u1", name: "Zed" },
+        });
+    });
+});
@@ -0,0 +1,210 @@
+import type { ListParams } from "../types";
+import { getValueAtPath } from "./paths";
+
+/**
+ * Sort key parsed from the `sort` param.
+ */
+interface SortKey {
+    /** Dotted path of the sorted field (e.g., "owner.name") */
+    path: string;
+    /** Whether the order is descending */
+    descending: boolean;
+}
+
+/**
+ * Splits a `sort` or `fields` param into its comma-separated entries.
+ */
+function splitList(value: ListParams[string]): string[] {
+    if (
+        value === undefined ||
+        value === "" ||
+        (typeof value === "object" && !Array.isArray(value))
+    ) {
+        return [];
+    }
+    const entries = Array.isArray(value) ? value : String(value).split(",");
+    return entries.map((entry) => String(entry).trim()).filter(Boolean);
+}
+
+/**
+ * Parses the `sort` param: `-field` or `field:desc` sort descending,
+ * `field` or `field:asc` ascending.
+ */
+function parseSort(sort: ListParams[string]): SortKey[] {
+    return splitList(sort).map((entry) => {
+        const [field, direction] = entry.split(":");
+        const descending =
+            field.startsWith("-") || direction?.toLowerCase() === "desc";
+        return { path: field.replace(/^[-+]/, ""), descending };
+    });
+}
+
+/**
+ * Orders two values: numbers numerically, anything else by string.
+ * Missing values (null or undefined) come last.
+ */
+function compareValues(a: unknown, b: unknown): number {
+    const aMissing = a === null || a === undefined;
+    const bMissing = b === null || b === undefined;
+    if (aMissing || bMissing) {
+        return Number(aMissing) - Number(bMissing);
+    }
+    if (typeof a === "number" && typeof b === "number") {
+        return a - b;
+    }
+
+    const aText = String(a);
+    const bText = String(b);
+    return aText === bText ? 0 : aText < bText ? -1 : 1;
+}
+
+/**
+ * Sorts entities by the `sort` param.
+ *
+ * Keys are applied in order; equal items keep their relative order. Missing
+ * values come last in both directions.
+ *
+ * @param entities - The entities to sort (not modified)
+ * @param sort - Comma-separated (or array of) fields, `-field` or `field:desc` for descending
+ * @returns Sorted copy of the entities
+ *
+ * @example
+ * ```ts
+ * sortEntities(notes, "-pinned,owner.name,createdAt:desc")
+ * ```
+ */
+export function sortEntities<T>(entities: T[], sort: ListParams[string]): T[] {
+    const keys = parseSort(sort);
+    if (keys.length === 0) {
+        return entities;
+    }
+
+    return [...entities].sort((a, b) => {
+        for (const { path, descending } of keys) {
+            const aValue = getValueAtPath(a, path);
+            const bValue = getValueAtPath(b, path);
+            const order = compareValues(aValue, bValue);
+            if (order !== 0) {
+                // Missing values stay last when descending
+                const isMissing =
+                    aValue === null ||
+                    aValue === undefined ||
+                    bValue === null ||
+                    bValue === undefined;
+                return descending && !isMissing ? -order : order;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Copies the value at a dotted path from an entity into a projection.
+ */
+function copyPath(
+    source: unknown,
+    target: Record<string, unknown>,
+    path: string[]
+): void {
+    const [key, ...rest] = path;
+    if (typeof source !== "object" || source === null || !(key in source)) {
+        return;
+    }
+
+    const value = (source as Record<string, unknown>)[key];
+    if (rest.length === 0 || typeof value !== "object" || value === null) {
+        target[key] = value;
+        return;
+    }
+
+    const nested = (target[key] ?? {}) as Record<string, unknown>;
+    target[key] = nested;
+    copyPath(value, nested, rest);
+}
+
+/**
+ * Keeps only the fields listed in the `fields` param.
+ *
+ * Dotted paths keep nested fields (`owner.name` keeps `{ owner: { name } }`).
+ * Key fields (`id` by default) are always kept, so items stay addressable.
+ *
+ * @param entities - The entities to project (not modified)
+ * @param fields - Comma-separated (or array of) field paths
+ * @param keyFields - Optional key field names for composite keys
+ * @returns Projected copies of the entities
+ *
+ * @example
+ * ```ts
+ * projectEntities(notes, "title,owner.name")
+ * // => [{ id: "n1", title: "Plan", owner: { name: "Ada" } }, ...]
+ * ```
+ */
+export function projectEntities<T>(
+    entities: T[],
+    fields: ListParams[string],
+    keyFields?: string[]
+): T[] {
+    const paths = splitList(fields).map((field) => field.split("."));
+    if (paths.length === 0) {
+        return entities;
+    }
+
+    const keys = keyFields && keyFields.length > 0 ? keyFields : ["id"];
+    return entities.map((entity) => {
+        const projection: Record<string, unknown> = {};
+        [...keys.map((key) => [key]), ...paths].forEach((path) =>
+            copyPath(entity, projection, path)
+        );
+        return projection as T;
+    });
+}
+
+/**
+ * Applies the `sort` and `fields` params to a list, like the API does.
+ *
+ * @param entities - Entities already filtered by the other params
+ * @param params - The list params
+ * @param keyFields - Optional key field names for composite keys
+ * @returns The sorted and projected entities
+ */
+export function shapeEntities<T>(
+    entities: T[],
+    params: ListParams | undefined,
+    keyFields?: string[]
+): T[] {
+    if (!params) {
+        return entities;
+    }
+    return projectEntities(
+        sortEntities(entities, params.sort),
+        params.fields,
+        keyFields
+    );
+}
+
+/**
+ * Merges a projected item (holding only some fields) into its cached copy,
+ * so fields the projection left out are kept.
+ *
+ * @param cached - The cached item, if any
+ * @param projected - The projected item returned by the API
+ * @returns The merged item
+ */
+export function mergeProjection<T>(cached: T | undefined, projected: T): T {
+    if (
+        typeof cached !== "object" ||
+        cached === null ||
+        Array.isArray(cached) ||
+        typeof projected !== "object" ||
+        projected === null ||
+        Array.isArray(projected)
+    ) {
+        return projected;
+    }
+
+    const merged = { ...cached } as Record<string, unknown>;
+    Object.entries(projected).forEach(([key, value]) => {
+        merged[key] = mergeProjection(merged[key], value);
+    });
+    return merged as T;
+}
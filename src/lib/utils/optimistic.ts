@@ -0,0 +1,72 @@
+import type { QueryKey } from "@tanstack/react-query";
+
+import type { InfiniteListData, ListParams } from "../types";
+
+/**
+ * Cached list query data: a plain list (`useList`) or paged data (`useInfiniteList`).
+ */
+type ListData<T> = T[] | InfiniteListData<T>;
+
+/**
+ * Checks whether list query data holds pages (from `useInfiniteList`).
+ */
+function isInfiniteData<T>(data: ListData<T>): data is InfiniteListData<T> {
+    return !Array.isArray(data) && Array.isArray(data.pages);
+}
+
+/**
+ * Applies an update to the items of cached list query data.
+ *
+ * Plain lists are updated as a whole; paged data is updated page by page.
+ * The updater is told whether it received the last (or only) list of items,
+ * so additions can be appended once.
+ *
+ * @param data - Cached list query data (undefined if nothing is cached)
+ * @param update - Returns the new items for a list or page
+ * @returns Updated query data, or undefined if nothing is cached
+ *
+ * @example
+ * ```ts
+ * // Remove an item from every page
+ * updateListData(data, (items) => items.filter((item) => item.id !== "1"));
+ *
+ * // Append an item to the end of the list
+ * updateListData(data, (items, isLast) => (isLast ? [...items, item] : items));
+ * ```
+ */
+export function updateListData<T>(
+    data: ListData<T> | undefined,
+    update: (items: T[], isLast: boolean) => T[]
+): ListData<T> | undefined {
+    if (!data) {
+        return data;
+    }
+
+    if (isInfiniteData(data)) {
+        const lastIndex = data.pages.length - 1;
+        return {
+            ...data,
+            pages: data.pages.map((page, index) => ({
+                ...page,
+                data: update(page.data, index === lastIndex),
+            })),
+        };
+    }
+
+    return update(data, true);
+}
+
+/**
+ * Extracts the list params from a list query key.
+ *
+ * Handles both `[name, "list", params?]` and `[name, "list", "infinite", params?]`.
+ *
+ * @param queryKey - A key under `queryKeys.lists()`
+ * @returns The params the list was queried with, or undefined for unfiltered lists
+ */
+export function getListParams(queryKey: QueryKey): ListParams | undefined {
+    const params = queryKey[2] === "infinite" ? queryKey[3] : queryKey[2];
+    return typeof params === "object" && params !== null
+        ? (params as ListParams)
+        : undefined;
+}
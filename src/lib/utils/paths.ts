@@ -0,0 +1,41 @@
+/**
+ * Reads the value at a dotted path (e.g., "owner.team.id").
+ *
+ * A field whose name contains the dots itself takes precedence. Arrays met
+ * along the path are expanded, so `tags.name` reads the name of every tag;
+ * missing steps read as undefined.
+ *
+ * @param entity - The entity to read from
+ * @param path - Field name or dotted path
+ * @returns The value, or the list of values when the path crosses arrays
+ *
+ * @example
+ * ```ts
+ * getValueAtPath({ owner: { team: { id: "t1" } } }, "owner.team.id")  // => "t1"
+ * getValueAtPath({ tags: [{ name: "a" }, { name: "b" }] }, "tags.name")  // => ["a", "b"]
+ * ```
+ */
+export function getValueAtPath(entity: unknown, path: string): unknown {
+    if (typeof entity !== "object" || entity === null) {
+        return undefined;
+    }
+    if (path in entity || !path.includes(".")) {
+        return (entity as Record<string, unknown>)[path];
+    }
+    return path.split(".").reduce(readStep, entity);
+}
+
+/**
+ * Reads one path segment, expanding arrays.
+ */
+function readStep(value: unknown, segment: string): unknown {
+    if (Array.isArray(value)) {
+        return value.flatMap((item) => {
+            const stepValue = readStep(item, segment);
+            return stepValue === undefined ? [] : [stepValue];
+        });
+    }
+    return typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[segment]
+        : undefined;
+}